@@ -0,0 +1,64 @@
+import { Locator, Page } from '@playwright/test';
+import { PortalHome } from './portal-home';
+import { isShown } from './wait';
+
+/** Header of the result table's column with the student's current room. */
+const ROOM_HEADER = /^ห้อง(เรียน)?$/;
+
+/** โรงเรียน › 2.7.7 › จัดห้องนร/แก้ไขชั้นเรียน: finds a student by national ID and moves them to another room. */
+export class ClassroomAssignmentPage {
+  public readonly cidInput: Locator;
+  public readonly searchButton: Locator;
+  public readonly studentCheckbox: Locator;
+  public readonly newClassroomInput: Locator;
+  public readonly saveButton: Locator;
+
+  constructor(private page: Page, private dmcPortalUrl: string) {
+    this.cidInput = page.getByRole('group').locator('input[name="cifNo"]');
+    this.searchButton = page.getByRole('button', { name: 'ค้นหา' });
+    this.studentCheckbox = page.getByRole('checkbox');
+    this.newClassroomInput = page.locator('input[name="items\\[0\\]\\.newClassroom"]');
+    this.saveButton = page.getByRole('button', { name: 'บันทึก' });
+  }
+
+  public async open(): Promise<void> {
+    await new PortalHome(this.page, this.dmcPortalUrl).openSchoolMenu('2.7.7', 'จัดห้องนร/แก้ไขชั้นเรียน');
+  }
+
+  /** Searches by national ID; false when no student row comes back. */
+  public async searchByCid(studentCid: string): Promise<boolean> {
+    await this.cidInput.click();
+    await this.cidInput.fill(studentCid);
+    await this.searchButton.click();
+    await this.page.waitForLoadState('networkidle');
+    return isShown(this.page.locator('input[type="checkbox"]'));
+  }
+
+  /**
+   * Room of the student found by searchByCid, read from the room column of the search
+   * result row (not the new-room field, which is empty until a room is entered). Null when
+   * the result table has no room column.
+   */
+  public async currentClassroom(): Promise<string | null> {
+    const table = this.page.locator('table', { has: this.newClassroomInput });
+    const headers = (await table.locator('th').allTextContents()).map(header => header.trim());
+    const column = headers.findIndex(header => ROOM_HEADER.test(header));
+    if (column < 0) {
+      return null;
+    }
+    const row = table.locator('tr', { has: this.newClassroomInput });
+    return ((await row.locator('td').nth(column).textContent()) || '').trim();
+  }
+
+  /** Selects the student found by searchByCid and enters the new room. */
+  public async assignClassroom(room: string): Promise<void> {
+    await this.studentCheckbox.check();
+    await this.newClassroomInput.click();
+    await this.newClassroomInput.fill(room);
+  }
+
+  public async save(): Promise<void> {
+    await this.saveButton.click();
+    await this.page.waitForLoadState('networkidle');
+  }
+}
@@ -0,0 +1,52 @@
+import { Locator, Page } from '@playwright/test';
+
+/** The ThaiD login: the user scans the QR code with the ThaiD app, then lands on the user selection page. */
+export class LoginPage {
+  public readonly thaiDOption: Locator;
+  public readonly qrCodeHeading: Locator;
+
+  constructor(private page: Page, private dmcPortalUrl: string) {
+    this.thaiDOption = page.getByText('Login ด้วย ThaiD');
+    this.qrCodeHeading = page.getByRole('heading', { name: 'คิวอาร์โค้ดนี้เป็นสิ่งยืนยันตนทางดิจิทัล ออกให้โดย' });
+  }
+
+  /** Shows the ThaiD QR code. */
+  public async chooseThaiD(): Promise<void> {
+    await this.thaiDOption.click();
+    await this.page.waitForLoadState('networkidle');
+  }
+
+  /** Waits for the QR code to be scanned; the portal then redirects to the user selection page. */
+  public async waitForAuthentication(): Promise<void> {
+    await this.page.waitForURL(`${this.dmcPortalUrl}/auth/landing`);
+    await this.page.waitForLoadState('networkidle');
+  }
+}
+
+/** The user selection page (`/auth/landing`), where a login with several school accounts picks one. */
+export class UserSelectionPage {
+  public readonly heading: Locator;
+  public readonly enterButton: Locator;
+
+  constructor(private page: Page, private dmcPortalUrl: string) {
+    this.heading = page.getByRole('heading', { name: 'กรุณาเลือก User' });
+    this.enterButton = page.getByRole('button', { name: 'เข้าใช้งานระบบ' });
+  }
+
+  public async goto(): Promise<void> {
+    await this.page.goto(`${this.dmcPortalUrl}/auth/landing`);
+    await this.page.waitForLoadState('networkidle');
+  }
+
+  /** The account's radio button; without a uid, the first account. */
+  public account(uid?: string): Locator {
+    return uid ? this.page.locator(`input[name="uid"][value="${uid}"]`) : this.page.locator('#uid');
+  }
+
+  /** Selects the account and enters the system with it. */
+  public async enterAs(uid?: string): Promise<void> {
+    await this.account(uid).check();
+    await this.enterButton.click();
+    await this.page.waitForLoadState('networkidle');
+  }
+}
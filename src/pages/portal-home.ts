@@ -0,0 +1,54 @@
+import { Locator, Page } from '@playwright/test';
+import { LoginPage } from './login-page';
+
+/** Title of every portal page. */
+export const PORTAL_TITLE = /ระบบจัดเก็บข้อมูลนักเรียนรายบุคคล Data Management Center/;
+
+/**
+ * The portal home page. The link to the daily student list is only shown to a logged-in
+ * user, so it doubles as the login check of every spec.
+ */
+export class PortalHome {
+  public readonly dailyListLink: Locator;
+  public readonly loginLink: Locator;
+  public readonly logoutLink: Locator;
+  /** The "โรงเรียน" menu of the header, present on every page. */
+  public readonly schoolMenu: Locator;
+
+  constructor(private page: Page, private dmcPortalUrl: string) {
+    this.dailyListLink = page.getByRole('link', { name: '- ดาวน์โหลดรายชื่อนักเรียน (สร้างวันละครั้ง เวลา 2:00 น.)' });
+    this.loginLink = page.getByRole('link', { name: 'เข้าระบบ' });
+    this.logoutLink = page.getByRole('link', { name: 'ออกจากระบบ' });
+    this.schoolMenu = page.getByText('โรงเรียน', { exact: true });
+  }
+
+  public async goto(): Promise<void> {
+    await this.page.goto(`${this.dmcPortalUrl}/`);
+    await this.page.waitForLoadState('networkidle');
+  }
+
+  public async isLoggedIn(): Promise<boolean> {
+    return this.dailyListLink.isVisible();
+  }
+
+  /** Follows the "เข้าระบบ" link of a logged-out home page to the login methods. */
+  public async openLogin(): Promise<LoginPage> {
+    await this.loginLink.click();
+    await this.page.waitForLoadState('networkidle');
+    return new LoginPage(this.page, this.dmcPortalUrl);
+  }
+
+  public async logout(): Promise<void> {
+    await this.logoutLink.click();
+    await this.page.waitForLoadState('networkidle');
+  }
+
+  /** Opens an entry of the "โรงเรียน" menu, following the submenu links in order, e.g. `['2.7.7', 'จัดห้องนร/แก้ไขชั้นเรียน']`. */
+  public async openSchoolMenu(...links: string[]): Promise<void> {
+    await this.schoolMenu.click();
+    for (const name of links) {
+      await this.page.getByRole('link', { name }).click();
+    }
+    await this.page.waitForLoadState('networkidle');
+  }
+}
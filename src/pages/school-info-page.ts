@@ -0,0 +1,15 @@
+import { Locator, Page } from '@playwright/test';
+import { PortalHome } from './portal-home';
+
+/** โรงเรียน › ข้อมูลพื้นฐานโรงเรียน. */
+export class SchoolInfoPage {
+  public readonly heading: Locator;
+
+  constructor(private page: Page, private dmcPortalUrl: string) {
+    this.heading = page.getByRole('heading', { name: 'ปรับปรุงข้อมูลพื้นฐานโรงเรียน' });
+  }
+
+  public async open(): Promise<void> {
+    await new PortalHome(this.page, this.dmcPortalUrl).openSchoolMenu('ข้อมูลพื้นฐานโรงเรียน');
+  }
+}
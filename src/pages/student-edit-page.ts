@@ -0,0 +1,147 @@
+import { Locator, Page } from '@playwright/test';
+import { isShown } from './wait';
+
+export type StudentEditTab = 'details' | 'health' | 'scout';
+
+/** Value and visible text of a select's chosen option. */
+export interface SelectedOption {
+  value: string;
+  label: string;
+}
+
+/** Link of each tab and, where the portal has one, the panel it shows. */
+const TABS: { [tab in StudentEditTab]: { link: string; panel?: string } } = {
+  details: { link: 'รายละเอียดนักเรียน' },
+  health: { link: 'สุขภาพ' },
+  scout: { link: 'ลูกเสือ,เนตรนารี,ยุวกาชาด', panel: '#tab-scout' }
+};
+
+/**
+ * A student's edit page (`/student/<studentId>:<schoolCode>/edit`). Setters only change the
+ * form; nothing reaches the portal until save().
+ */
+export class StudentEditPage {
+  public readonly heading: Locator;
+  public readonly saveButton: Locator;
+  public readonly weightInput: Locator;
+  public readonly heightInput: Locator;
+  public readonly swimmingCheckbox: Locator;
+  public readonly scoutSelect: Locator;
+  public readonly redCrossSelect: Locator;
+
+  constructor(private page: Page, private dmcPortalUrl: string) {
+    this.heading = page.getByRole('heading', { name: 'ข้อมูลเบื้องต้น' });
+    this.saveButton = page.getByRole('button', { name: 'บันทึก' });
+    this.weightInput = page.locator('input[name="weight"]');
+    this.heightInput = page.locator('input[name="height"]');
+    this.swimmingCheckbox = page.locator('#swimmableFlag1');
+    this.scoutSelect = page.locator('#scoutId-select');
+    this.redCrossSelect = page.locator('#redcrossyouthId-select');
+  }
+
+  /** Opens the student's page; false when the portal does not show it, i.e. the student is not in the school. */
+  public async open(studentId: string, schoolCode: string): Promise<boolean> {
+    await this.page.goto(`${this.dmcPortalUrl}/student/${studentId}:${schoolCode}/edit`, { timeout: 30000, waitUntil: 'domcontentloaded' });
+    await this.page.waitForLoadState('networkidle');
+    return isShown(this.heading);
+  }
+
+  public async openTab(tab: StudentEditTab): Promise<void> {
+    const { link, panel } = TABS[tab];
+    await this.page.getByRole('link', { name: link }).click();
+    await this.page.waitForLoadState('networkidle');
+    if (panel) {
+      await this.page.locator(panel).waitFor({ state: 'visible', timeout: 5000 });
+    }
+  }
+
+  /** Health tab. False when the field is not on the page. */
+  public async setWeight(weight: number): Promise<boolean> {
+    return fillNumber(this.weightInput, weight);
+  }
+
+  /** Health tab. False when the field is not on the page. */
+  public async setHeight(height: number): Promise<boolean> {
+    return fillNumber(this.heightInput, height);
+  }
+
+  /** Health tab. Null when the field is not on the page. */
+  public async getWeight(): Promise<string | null> {
+    return (await isShown(this.weightInput)) ? this.weightInput.inputValue() : null;
+  }
+
+  /** Health tab. Null when the field is not on the page. */
+  public async getHeight(): Promise<string | null> {
+    return (await isShown(this.heightInput)) ? this.heightInput.inputValue() : null;
+  }
+
+  /** Details tab. Null when the checkbox is not on the page. */
+  public async isSwimmable(): Promise<boolean | null> {
+    return (await isShown(this.swimmingCheckbox)) ? this.swimmingCheckbox.isChecked() : null;
+  }
+
+  /** Details tab. */
+  public async setSwimmable(swimmable: boolean): Promise<void> {
+    await this.swimmingCheckbox.setChecked(swimmable);
+  }
+
+  /** Scout tab. Null when the select is not on the page. */
+  public async getScout(): Promise<SelectedOption | null> {
+    return selectedOption(this.scoutSelect);
+  }
+
+  /** Scout tab. Null when the select is not on the page. */
+  public async getRedCross(): Promise<SelectedOption | null> {
+    return selectedOption(this.redCrossSelect);
+  }
+
+  /** Visible text of a select's option, e.g. for `scoutSelect` and '1'; the value itself when there is no such option. */
+  public async optionLabel(select: Locator, value: string): Promise<string> {
+    const option = select.locator(`option[value="${value}"]`);
+    return (await option.count()) > 0 ? ((await option.first().textContent()) || '').trim() : value;
+  }
+
+  /** Scout tab; `code` is the option value, e.g. '1' for ลูกเสือ/เนตรนารี. */
+  public async setScout(code: string): Promise<void> {
+    await this.scoutSelect.selectOption(code);
+  }
+
+  /** Scout tab; `code` is the option value, e.g. '1' for เป็นสมาชิกยุวกาชาด. */
+  public async setRedCross(code: string): Promise<void> {
+    await this.redCrossSelect.selectOption(code);
+  }
+
+  /** Saves the open tab; false when it has no save button. */
+  public async save(): Promise<boolean> {
+    // Let the form settle before saving
+    await this.page.waitForTimeout(500);
+    if (!(await isShown(this.saveButton))) {
+      return false;
+    }
+    await this.saveButton.click();
+    await this.page.waitForLoadState('networkidle');
+    await this.page.waitForTimeout(2000); // Wait for save to complete
+    return true;
+  }
+}
+
+async function fillNumber(input: Locator, value: number): Promise<boolean> {
+  if (!(await isShown(input))) {
+    return false;
+  }
+  // Clear the field and enter the new value
+  await input.click();
+  await input.selectText();
+  await input.fill(value.toString());
+  return true;
+}
+
+async function selectedOption(select: Locator): Promise<SelectedOption | null> {
+  if (!(await isShown(select))) {
+    return null;
+  }
+  return select.evaluate((element: HTMLSelectElement) => {
+    const option = element.options[element.selectedIndex];
+    return { value: element.value, label: option ? option.text.trim() : '' };
+  });
+}
@@ -0,0 +1,35 @@
+import { Page } from '@playwright/test';
+import { isShown } from './wait';
+
+export interface StudentProgramQuery {
+  schoolCode: string;
+  educationYear: string;
+  studentId?: string;
+  studentCid?: string;
+  /** Grade level code; all levels when empty. */
+  levelDtlCode?: string;
+}
+
+/** The student search of `/studentprogram/add`, opened directly with the search in its query string. */
+export class StudentProgramSearchPage {
+  constructor(private page: Page, private dmcPortalUrl: string) {}
+
+  /** Runs the search; true when it lists the student. */
+  public async search(query: StudentProgramQuery): Promise<boolean> {
+    const params = new URLSearchParams({
+      schoolCode: query.schoolCode,
+      studentNo: query.studentId || '',
+      cifNo: query.studentCid || '',
+      cifType: '',
+      educationYear: query.educationYear,
+      levelDtlCode: query.levelDtlCode || '',
+      classroom: '',
+      firstNameTh: '',
+      lastNameTh: '',
+      action: 'search'
+    });
+    await this.page.goto(`${this.dmcPortalUrl}/studentprogram/add?${params}`, { timeout: 30000, waitUntil: 'domcontentloaded' });
+    await this.page.waitForLoadState('networkidle', { timeout: 15000 });
+    return isShown(this.page.locator('input[type="checkbox"]'));
+  }
+}
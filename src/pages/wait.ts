@@ -0,0 +1,11 @@
+import { Locator } from '@playwright/test';
+
+/** Whether the element shows up within the timeout; `isVisible()` only checks the current state. */
+export async function isShown(locator: Locator, timeout = 5000): Promise<boolean> {
+  try {
+    await locator.waitFor({ state: 'visible', timeout });
+    return true;
+  } catch {
+    return false;
+  }
+}
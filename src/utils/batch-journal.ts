@@ -0,0 +1,82 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const DEFAULT_CHECKPOINT_DIR = path.join(__dirname, '../../output/checkpoints');
+
+/** One line of a journal. The last entry of a key is its current state. */
+export interface JournalEntry {
+  /** School code and record key, e.g. "1010720001:39086". */
+  key: string;
+  operation: string;
+  /** Hash of the values the operation writes for the record. */
+  inputHash: string;
+  /** 'pending' while the record is being processed, then the batch status. */
+  status: string;
+  error?: string;
+  /** ISO timestamp. */
+  at: string;
+}
+
+/** Journal file of an operation over an input file, e.g. output/checkpoints/health_data_update_stu.csv.jsonl. */
+export function checkpointPath(operation: string, sourceFile: string, checkpointDir: string = DEFAULT_CHECKPOINT_DIR): string {
+  return path.join(checkpointDir, `${operation}_${path.basename(sourceFile)}.jsonl`);
+}
+
+/** Stable hash of input values; key order of plain objects does not matter. */
+export function hashInput(values: unknown): string {
+  const canonical = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(canonical);
+    if (value && typeof value === 'object') {
+      return Object.keys(value as object).sort().map(key => [key, canonical((value as { [key: string]: unknown })[key])]);
+    }
+    return value === undefined ? null : value;
+  };
+  return crypto.createHash('sha256').update(JSON.stringify(canonical(values))).digest('hex').slice(0, 16);
+}
+
+/**
+ * Append-only checkpoint journal of a batch operation. Each record is written as
+ * 'pending' before it is processed and again with its outcome, so a run that dies
+ * mid-record leaves it pending and it is retried. Entries are appended one line at a
+ * time; a line cut off by a crash is ignored when the journal is read back.
+ */
+export class BatchJournal {
+  /** State of each key when the journal was opened. */
+  private previous = new Map<string, JournalEntry>();
+
+  constructor(public readonly filePath: string, public readonly operation: string, options: { reset?: boolean } = {}) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    if (options.reset && fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+    if (!fs.existsSync(filePath)) {
+      return;
+    }
+
+    for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+      if (line.trim() === '') continue;
+      let entry: JournalEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (entry.operation === operation) {
+        this.previous.set(entry.key, entry);
+      }
+    }
+  }
+
+  /** Whether an earlier run finished the key with the same input and one of the given statuses. */
+  public isCompleted(key: string, inputHash: string, completedStatuses: string[]): boolean {
+    const entry = this.previous.get(key);
+    return entry !== undefined && entry.inputHash === inputHash && completedStatuses.includes(entry.status);
+  }
+
+  public record(key: string, inputHash: string, status: string, error?: string): void {
+    const entry: JournalEntry = { key, operation: this.operation, inputHash, status, at: new Date().toISOString() };
+    if (error) entry.error = error;
+    fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n');
+  }
+}
@@ -0,0 +1,446 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Page } from '@playwright/test';
+import { BatchJournal, checkpointPath, hashInput } from './batch-journal';
+import { CsvDataHandler } from './csv-data-handler';
+import { CsvCell, writeCsvFile } from './csv-writer';
+import {
+  logSchoolSummaries,
+  SchoolBatchPlan,
+  SchoolBatchSummary,
+  SchoolScoped,
+  SchoolSettings,
+  schoolSummaryRows,
+  summarizeBySchool,
+  switchSchoolSession
+} from './school-batch';
+import { ValidationResult } from './student-validator';
+import { XlsxDataHandler } from './xlsx-data-handler';
+
+/** A portal field as the handler found it and as the operation sets it. */
+export interface BatchFieldChange {
+  field: string;
+  before: CsvCell;
+  after: CsvCell;
+}
+
+/** What a handler reports for one record, e.g. `{ status: 'success', data: { weightUpdated: true } }`. */
+export interface BatchOutcome<D = {}> {
+  status: string;
+  /** Operation-specific values for the result columns. */
+  data?: D;
+  /** Why the record failed or was skipped; written to the Error column. */
+  error?: string;
+  /**
+   * Fields the operation sets, with the values read from the portal before any change. They
+   * go to the Before/After columns of the result files and the plan report of a dry run.
+   */
+  changes?: BatchFieldChange[];
+}
+
+export interface BatchItemContext {
+  school: SchoolSettings;
+  /** 0-based position in the whole run. */
+  index: number;
+  page: Page;
+  dmcPortalUrl: string;
+  /** Read the portal and report `changes`, but do not save; return status 'planned'. */
+  dryRun: boolean;
+}
+
+export interface BatchResult<T, D = {}> {
+  schoolCode: string;
+  record: T;
+  status: string;
+  /** Missing when the handler threw. */
+  data?: D;
+  error?: string;
+  changes?: BatchFieldChange[];
+  processingTime: number;
+}
+
+export interface BatchResultColumn<T, D = {}> {
+  header: string;
+  value: (result: BatchResult<T, D>) => CsvCell;
+}
+
+/** Keeps a journal so a rerun over the same file skips the records an earlier run finished. */
+export interface BatchCheckpointOptions<T> {
+  /** Input file of the run; the journal is kept per operation and file name. */
+  sourceFile: string;
+  /** Identifies a record within its school, e.g. the student ID. */
+  key: (record: T) => string;
+  /** Values the operation writes; a finished record is done again when they change. */
+  input: (record: T) => unknown;
+  /** Statuses that need no retry (default: the success statuses). */
+  completedStatuses?: string[];
+  /** Name of the operation in the journal (default: outputPrefix). */
+  operation?: string;
+  /** Start a new journal instead of resuming (default: CHECKPOINT_RESET=true). */
+  reset?: boolean;
+}
+
+export interface BatchRunnerOptions<T extends SchoolScoped, D = {}> {
+  page: Page;
+  dmcPortalUrl: string;
+  /** Banner of the summary, e.g. 'HEALTH DATA UPDATE'. */
+  title: string;
+  icon?: string;
+  /** Result files are written as `output/<outputPrefix>_<timestamp>.csv` and `.xlsx`. */
+  outputPrefix: string;
+  /** How a record appears in progress lines, e.g. "39086 - เกวลิน เฝ้าทรัพย์". */
+  describe: (record: T) => string;
+  /** Result columns between SchoolCode and Status/ProcessingTime/Error (or the ChangedFields/Before/After audit). */
+  columns: BatchResultColumn<T, D>[];
+  /** Statuses that count as success (default: 'success'); 'unchanged' always does. */
+  successStatuses?: string[];
+  /** Summary labels per status, e.g. `{ not_found: 'Not found in system' }`; other statuses are listed by name. */
+  statusLabels?: { [status: string]: string };
+  /** Extra label/value lines for the summary, e.g. how many weight fields were set. */
+  summary?: (results: BatchResult<T, D>[]) => [string, CsvCell][];
+  /**
+   * Checks a record before the handler sees it, with the dictionary of the record's school
+   * (CsvDataHandler.forSchool, so a school's own dictionary applies). A record that fails
+   * gets status 'invalid' and never reaches the portal.
+   */
+  validate?: (record: T, csvHandler: CsvDataHandler) => ValidationResult;
+  /** Pause between records so the portal is not overwhelmed (default 1500 ms). */
+  delayMs?: number;
+  checkpoint?: BatchCheckpointOptions<T>;
+  /** Plan instead of saving (default: DRY_RUN=true). A dry run keeps no checkpoint journal. */
+  dryRun?: boolean;
+}
+
+export interface BatchReport<T, D = {}> {
+  results: BatchResult<T, D>[];
+  schoolSummary: SchoolBatchSummary;
+  totalTime: number;
+  /** Records skipped because an earlier run finished them. */
+  resumed: number;
+  csvPath: string;
+  workbookPath: string;
+  journalPath?: string;
+  /** Plan report of a dry run: one row per field of each student, current and new value. */
+  planPath?: string;
+}
+
+const DEFAULT_STATUS_LABELS: { [status: string]: string } = {
+  success: 'Successful',
+  error: 'Errors',
+  skipped: 'Skipped',
+  invalid: 'Invalid data (not sent to the portal)',
+  not_found: 'Not found in system',
+  student_not_found: 'Students not found',
+  planned: 'Planned (not saved)',
+  unchanged: 'Already up to date (not saved)'
+};
+
+/**
+ * Whether the operation would give the field a different value. Numbers are compared as
+ * numbers, so a portal value of "40.50" matches 40.5; everything else as text.
+ */
+export function isFieldChanged(change: BatchFieldChange): boolean {
+  const before = String(change.before ?? '').trim();
+  if (typeof change.after === 'number' && before !== '' && !isNaN(Number(before))) {
+    return Number(before) !== change.after;
+  }
+  return before !== String(change.after ?? '').trim();
+}
+
+/** Action column of the plan report; a field the page did not show is not called a change of a known value. */
+function planAction(change: BatchFieldChange): string {
+  if (!isFieldChanged(change)) return 'unchanged';
+  return change.before === null || change.before === undefined ? 'set (current value not found)' : 'change';
+}
+
+/** Audit cell of a result row, e.g. "weight=40; height=150". */
+function formatFieldValues(changes: BatchFieldChange[], side: 'before' | 'after'): string {
+  return changes.map(change => `${change.field}=${change[side] ?? ''}`).join('; ');
+}
+
+/**
+ * Runs one operation over every record of a school batch plan, reading the records as it
+ * goes. The handler only does the page interaction for one record; the runner validates the
+ * record with its school's dictionary, switches school sessions, prints progress,
+ * paces requests, turns a thrown error into an 'error' result and goes back to the portal
+ * home page before the next record, then writes the CSV and Excel results and prints the
+ * summary. When the records cannot be read to the end, e.g. a rejected row in strict mode,
+ * the results so far are still written before the error is rethrown. With a checkpoint, every outcome goes to a journal on disk as it happens and
+ * records finished by an earlier run with the same input are left out; the result files
+ * then cover only the records of this run. A dry run hands `dryRun` to the handler, which
+ * reads the portal and reports its changes without saving, and adds a plan report.
+ */
+export class BatchRunner<T extends SchoolScoped, D = {}> {
+  private options: BatchRunnerOptions<T, D>;
+  private dryRun: boolean;
+
+  constructor(options: BatchRunnerOptions<T, D>) {
+    this.options = options;
+    this.dryRun = options.dryRun !== undefined ? options.dryRun : process.env.DRY_RUN === 'true';
+  }
+
+  public async run(
+    plan: SchoolBatchPlan<T>,
+    handler: (record: T, context: BatchItemContext) => Promise<BatchOutcome<D>>
+  ): Promise<BatchReport<T, D>> {
+    const { page, dmcPortalUrl, describe } = this.options;
+    const delayMs = this.options.delayMs !== undefined ? this.options.delayMs : 1500;
+    const journal = this.openJournal();
+    const results: BatchResult<T, D>[] = [];
+    const startTime = Date.now();
+    let resumed = 0;
+    let index = 0;
+    let handled = 0;
+    let current: SchoolSettings | undefined;
+    let sessionError: string | undefined;
+    let readError: unknown;
+
+    if (journal) {
+      console.log(`\n📒 Checkpoint journal: ${journal.filePath}`);
+    }
+    if (this.dryRun) {
+      console.log('\n📝 DRY RUN: current values are read and planned changes reported; nothing is saved');
+    }
+    console.log(`\n🚀 Starting ${this.options.title.toLowerCase()}...\n`);
+    try {
+      for await (const { school, record } of plan.items) {
+        const key = journal ? this.journalKey(school, record) : '';
+        const inputHash = journal ? this.inputHash(record) : '';
+        if (journal && journal.isCompleted(key, inputHash, this.completedStatuses())) {
+          resumed++;
+          continue;
+        }
+        const itemStartTime = Date.now();
+        const progress = `[${++index}]`;
+        const push = (outcome: BatchOutcome<D>) => {
+          results.push({ schoolCode: school.schoolCode, record, ...outcome, processingTime: Date.now() - itemStartTime });
+          journal?.record(key, inputHash, outcome.status, outcome.error);
+        };
+
+        if (this.options.validate) {
+          const validation = this.options.validate(record, CsvDataHandler.forSchool(school.schoolCode));
+          if (!validation.isValid) {
+            const error = validation.errors.map(validationError => validationError.message).join(', ');
+            console.log(`${progress} ⚠️  Skipping ${describe(record)}: ${error}`);
+            push({ status: 'invalid', error });
+            continue;
+          }
+        }
+        if (school !== current) {
+          current = school;
+          sessionError = await this.switchSchool(school);
+        }
+        if (sessionError) {
+          push({ status: 'error', error: sessionError });
+          continue;
+        }
+
+        // Rate limiting between requests
+        if (handled++ > 0) {
+          await page.waitForTimeout(delayMs);
+        }
+        console.log(`${progress} Processing: ${describe(record)}`);
+        journal?.record(key, inputHash, 'pending');
+        try {
+          const outcome = await handler(record, { school, index: index - 1, page, dmcPortalUrl, dryRun: this.dryRun });
+          push(outcome);
+          const icon = this.isSuccess(outcome.status) ? '✅' : '⚠️ ';
+          console.log(`   ${icon} ${outcome.status}${outcome.error ? `: ${outcome.error}` : ''} (${Date.now() - itemStartTime}ms)`);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          push({ status: 'error', error: message });
+          console.error(`   ❌ Error processing ${describe(record)}: ${message} (${Date.now() - itemStartTime}ms)`);
+          await this.recover();
+        }
+      }
+    } catch (error) {
+      readError = error;
+      console.error(`💥 Stopped reading records: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const totalTime = Date.now() - startTime;
+    const schoolSummary = summarizeBySchool(results, plan, result => this.isSuccess(result.status));
+    const report = { results, schoolSummary, totalTime, resumed, journalPath: journal?.filePath };
+    const paths = await this.writeResults(report);
+    this.logSummary({ ...report, ...paths });
+    if (readError !== undefined) {
+      throw readError;
+    }
+    return { ...report, ...paths };
+  }
+
+  private openJournal(): BatchJournal | undefined {
+    const checkpoint = this.options.checkpoint;
+    if (!checkpoint || this.dryRun) {
+      return undefined;
+    }
+    const operation = checkpoint.operation || this.options.outputPrefix;
+    const reset = checkpoint.reset !== undefined ? checkpoint.reset : process.env.CHECKPOINT_RESET === 'true';
+    return new BatchJournal(checkpointPath(operation, checkpoint.sourceFile), operation, { reset });
+  }
+
+  private journalKey(school: SchoolSettings, record: T): string {
+    return `${school.schoolCode}:${this.options.checkpoint!.key(record)}`;
+  }
+
+  private inputHash(record: T): string {
+    return hashInput(this.options.checkpoint!.input(record));
+  }
+
+  private completedStatuses(): string[] {
+    return this.options.checkpoint?.completedStatuses || this.successStatuses();
+  }
+
+  /** The configured success statuses, plus 'unchanged' (nothing needed saving) and, in a dry run, 'planned'. */
+  private successStatuses(): string[] {
+    return [...(this.options.successStatuses || ['success']), 'unchanged', ...(this.dryRun ? ['planned'] : [])];
+  }
+
+  private isSuccess(status: string): boolean {
+    return this.successStatuses().includes(status);
+  }
+
+  /** Returns why the school's records cannot be processed, or undefined once its session is active. */
+  private async switchSchool(school: SchoolSettings): Promise<string | undefined> {
+    try {
+      await switchSchoolSession(this.options.page, this.options.dmcPortalUrl, school);
+      return undefined;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ ${message}; skipping the school's records`);
+      return message;
+    }
+  }
+
+  private async recover(): Promise<void> {
+    try {
+      console.log('   🔄 Attempting to recover...');
+      await this.options.page.goto(`${this.options.dmcPortalUrl}/`, { timeout: 10000 });
+      await this.options.page.waitForTimeout(2000);
+      console.log('   ✅ Recovery successful');
+    } catch (recoveryError) {
+      console.error('   ❌ Failed to recover, continuing with next record');
+    }
+  }
+
+  private statusCounts(results: BatchResult<T, D>[]): [string, number][] {
+    const counts = new Map<string, number>();
+    for (const result of results) {
+      counts.set(result.status, (counts.get(result.status) || 0) + 1);
+    }
+    const labels = { ...DEFAULT_STATUS_LABELS, ...this.options.statusLabels };
+    return [...counts].map(([status, count]) => [labels[status] || status, count]);
+  }
+
+  /** Summary lines shared by the console and the workbook. */
+  private summaryLines(results: BatchResult<T, D>[], resumed: number): [string, CsvCell][] {
+    return [
+      ...this.statusCounts(results),
+      ...(this.options.summary ? this.options.summary(results) : []),
+      ...(this.options.checkpoint && !this.dryRun ? [['Skipped (finished in an earlier run)', resumed] as [string, CsvCell]] : [])
+    ];
+  }
+
+  private async writeResults(
+    { results, schoolSummary, totalTime, resumed }: Omit<BatchReport<T, D>, 'csvPath' | 'workbookPath'>
+  ): Promise<{ csvPath: string; workbookPath: string; planPath?: string }> {
+    // Operations that report their field changes get an audit of what differed, before and after
+    const audit = results.some(result => result.changes !== undefined);
+    const header = [
+      'SchoolCode',
+      ...this.options.columns.map(column => column.header),
+      ...(audit ? ['ChangedFields', 'Before', 'After'] : []),
+      'Status',
+      'ProcessingTime(ms)',
+      'Error'
+    ];
+    const toResultRow = (result: BatchResult<T, D>): CsvCell[] => [
+      result.schoolCode,
+      ...this.options.columns.map(column => column.value(result)),
+      ...(audit ? [
+        (result.changes || []).filter(isFieldChanged).map(change => change.field).join(', '),
+        formatFieldValues(result.changes || [], 'before'),
+        formatFieldValues(result.changes || [], 'after')
+      ] : []),
+      result.status,
+      result.processingTime,
+      result.error || ''
+    ];
+
+    // Ensure output directory exists
+    const outputDir = path.join(__dirname, '../../output');
+    if (!fs.existsSync(outputDir)) {
+      fs.mkdirSync(outputDir, { recursive: true });
+    }
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const prefix = this.dryRun ? `${this.options.outputPrefix}_dry_run` : this.options.outputPrefix;
+    const csvPath = path.join(outputDir, `${prefix}_${timestamp}.csv`);
+    const workbookPath = csvPath.replace(/\.csv$/, '.xlsx');
+    const planPath = this.dryRun ? path.join(outputDir, `${this.options.outputPrefix}_plan_${timestamp}.csv`) : undefined;
+    const planHeader = ['SchoolCode', 'Student', 'Field', 'Current', 'New', 'Action'];
+    const planRows = results.flatMap(result => (result.changes || []).map(change => [
+      result.schoolCode,
+      this.options.describe(result.record),
+      change.field,
+      change.before,
+      change.after,
+      planAction(change)
+    ]));
+    try {
+      writeCsvFile(csvPath, [header, ...results.map(toResultRow)]);
+      if (planPath) {
+        writeCsvFile(planPath, [planHeader, ...planRows]);
+      }
+
+      // Save the same results as an Excel report (Summary / Successes / Errors)
+      await XlsxDataHandler.getInstance().writeResultWorkbook(workbookPath, {
+        summary: [
+          ['Total processed', results.length],
+          ...this.summaryLines(results, resumed),
+          ['Total execution time (s)', Number((totalTime / 1000).toFixed(2))],
+          ...schoolSummaryRows(schoolSummary)
+        ],
+        header,
+        successes: results.filter(result => this.isSuccess(result.status)).map(toResultRow),
+        errors: results.filter(result => !this.isSuccess(result.status)).map(toResultRow),
+        sheets: planPath ? [{ name: 'Plan', header: planHeader, rows: planRows }] : []
+      });
+    } catch (error) {
+      console.error('💥 Error saving result files:', error instanceof Error ? error.message : String(error));
+    }
+    return { csvPath, workbookPath, planPath };
+  }
+
+  private logSummary({ results, schoolSummary, totalTime, resumed, csvPath, workbookPath, journalPath, planPath }: BatchReport<T, D>): void {
+    const successCount = results.filter(result => this.isSuccess(result.status)).length;
+    const average = results.length > 0 ? results.reduce((sum, result) => sum + result.processingTime, 0) / results.length : 0;
+    const rate = results.length > 0 ? (successCount / results.length) * 100 : 0;
+
+    console.log('\n' + '='.repeat(60));
+    console.log(`${this.options.icon || '📊'} ${this.options.title} ${this.dryRun ? 'DRY RUN ' : ''}SUMMARY`);
+    console.log('='.repeat(60));
+    console.log(`⏱️  Total execution time: ${(totalTime / 1000).toFixed(2)}s`);
+    console.log(`📈 Average processing time: ${average.toFixed(0)}ms`);
+    console.log(`👥 Total processed: ${results.length}`);
+    for (const [label, value] of this.summaryLines(results, resumed)) {
+      console.log(`   ${label}: ${value}`);
+    }
+    console.log(`📊 Success rate: ${rate.toFixed(2)}%`);
+    if (totalTime > 0) {
+      console.log(`⚡ Processing speed: ${(results.length / (totalTime / 1000)).toFixed(2)} records/second`);
+    }
+    logSchoolSummaries(schoolSummary);
+    console.log(`📁 Results saved to: ${csvPath}`);
+    console.log(`📁 Excel report saved to: ${workbookPath}`);
+    if (planPath) {
+      const changeCount = results.reduce((count, result) =>
+        count + (result.changes || []).filter(isFieldChanged).length, 0);
+      console.log(`📝 Plan report (${changeCount} field changes, nothing saved): ${planPath}`);
+    }
+    if (journalPath) {
+      console.log(`📒 Checkpoint journal: ${journalPath}`);
+    }
+    console.log('='.repeat(60));
+  }
+}
@@ -1,5 +1,15 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { CsvDelimiter, CsvParseOptions, CsvRow, parseCsv, parseCsvStream } from './csv-parser';
+import { writeCsvFile } from './csv-writer';
+import { DataDictionaryFile, DEFAULT_DATA_DICTIONARY_PATH, readDataDictionaryFile } from './data-dictionary-loader';
+import { parseGrade } from './grade-level';
+import { StudentValidator, ValidationResult } from './student-validator';
+import { checkThaiAddress, formatThaiAddress } from './thai-address';
+import { normalizeThaiNationalId } from './thai-national-id';
+import { ThaiDate } from './thai-date';
+import { normalizeThaiText, showInvisibleCharacters, TextNormalization, TextNormalizationResult } from './thai-text';
+import { coerceValue, FieldType, formatValue } from './value-coercion';
 
 export interface StudentRecord {
   schoolCode: string;
@@ -12,10 +22,15 @@ export interface StudentRecord {
   titlePrefix: string;
   firstName: string;
   lastName: string;
-  birthDate: string;
-  age: number;
-  weight: number;
-  height: number;
+  /**
+   * null when the cell is empty or "-". A cell that is not a valid date is kept as its text,
+   * which validation rejects.
+   */
+  birthDate: ThaiDate | null;
+  /** Numeric fields are null when absent, so a missing value is never mistaken for 0. Unreadable cells are kept as text, as for birthDate. */
+  age: number | null;
+  weight: number | null;
+  height: number | null;
   bloodType: string;
   religion: string;
   ethnicity: string;
@@ -47,125 +62,584 @@ export interface DataDictionary {
   [key: string]: {
     thaiName: string;
     englishName: string;
-    type: 'string' | 'number' | 'date';
+    type: FieldType;
     required: boolean;
     description: string;
     example?: string;
+    /** Position in the full DMC export. Fields the export does not have, such as a school's own, leave it out. */
+    columnIndex?: number;
+    /** Special format with its own normalization and checks. */
+    format?: 'thaiNationalId' | 'gradeLevel';
     validation?: {
       pattern: string;
       message: string;
+      messageTh?: string;
     };
     allowedValues?: string[];
   };
 }
 
+export interface ValidationProfile {
+  description: string;
+  /** Fields the operation reads; only these columns are required and validated. */
+  fields: (keyof StudentRecord)[];
+  /** Fields used when the file has them: validated, but their columns are not required. */
+  optionalFields?: (keyof StudentRecord)[];
+  /** Subset of `fields` that must have a value. */
+  requiredFields: (keyof StudentRecord)[];
+}
+
+export interface SchemaProfile {
+  description: string;
+  /** Columns that identify a file as this layout. */
+  fields: (keyof StudentRecord)[];
+}
+
+export interface TextNormalizationConfig {
+  /** Steps for fields without their own entry. */
+  default: TextNormalization[];
+  fields: { [field: string]: TextNormalization[] };
+}
+
+export interface ColumnMapping {
+  field: keyof StudentRecord;
+  columnIndex: number;
+  header: string;
+  /** 'header' when the header cell matched a dictionary name, 'columnIndex' for the positional fallback. */
+  matchedBy: 'header' | 'columnIndex';
+}
+
+/** Accepted values per field, e.g. `{ schoolCode: '36022006', grade: ['ม.1', 'ม.2'] }`. */
+export type StudentFilter = Partial<Record<keyof StudentRecord, string | string[]>>;
+
+export interface LoadStudentDataOptions extends CsvParseOptions {
+  /** Columns that must be present in the file. Defaults to the profile's fields, then the dictionary's required fields. */
+  requiredFields?: (keyof StudentRecord)[];
+  /** Name of a validation profile in the data dictionary. */
+  profile?: string;
+  /** Fail the whole load when any row is rejected, instead of loading the rest. */
+  strict?: boolean;
+  /** Rows that do not match are skipped before they are mapped to records. */
+  filter?: StudentFilter;
+  /**
+   * Reject records that fail validation against the profile (or the whole dictionary). On
+   * unless set to false, for loaded and streamed files alike.
+   */
+  validate?: boolean;
+  /**
+   * What to do with subdistrict/district/province when the file has those columns:
+   * 'check' (default) only flags, 'correct' also fixes close misspellings, 'off' skips
+   * the lookup.
+   */
+  addresses?: 'correct' | 'check' | 'off';
+}
+
+export interface LoadIssue {
+  lineNumber: number;
+  /** 'rejected' rows were not loaded; 'warning' rows were loaded but need a look. */
+  severity: 'rejected' | 'warning';
+  reason: string;
+  raw: string;
+}
+
+/** A cell rewritten by text normalization or the address lookup, kept so every change can be audited. */
+export interface NormalizationChange {
+  lineNumber: number;
+  field: keyof StudentRecord;
+  before: string;
+  after: string;
+  steps: (TextNormalization | 'addressLookup')[];
+}
+
+export interface LoadReport {
+  filePath: string;
+  /** Name of the schema profile the headers matched, or null when the layout is not recognised. */
+  schema: string | null;
+  /** Fields the header row was mapped to, i.e. the columns the file actually has. */
+  fields: (keyof StudentRecord)[];
+  /** Non-blank data rows read so far. */
+  totalRows: number;
+  loadedRows: number;
+  rejectedRows: number;
+  /** Rows skipped by `options.filter`. */
+  filteredRows: number;
+  issues: LoadIssue[];
+  normalizations: NormalizationChange[];
+}
+
+export interface ExportCsvOptions {
+  /** Header row language (default 'thai'). Either loads back through loadStudentData. */
+  headerLanguage?: 'thai' | 'english';
+  /** Columns to write, in order. Defaults to every dictionary field in columnIndex order. */
+  fields?: (keyof StudentRecord)[];
+  /** Prefix a UTF-8 BOM for Excel (default true). */
+  bom?: boolean;
+  delimiter?: CsvDelimiter;
+}
+
+export interface StudentLoadResult {
+  records: StudentRecord[];
+  report: LoadReport;
+}
+
+export interface StudentStream {
+  records: AsyncGenerator<StudentRecord>;
+  /** Filled in while `records` is iterated; complete once iteration ends. */
+  report: LoadReport;
+}
+
+/** Header-derived state for reading the data rows of one file. */
+interface RowReader {
+  headers: string[];
+  mapping: ColumnMapping[];
+  filterColumns: { field: keyof StudentRecord; columnIndex: number; accepted: Set<string> }[];
+  /** True when the file has any of the address columns and addresses are not switched off. */
+  checkAddresses: boolean;
+  /** Required and profile fields: a row whose cell in one of these cannot be coerced is rejected. */
+  typedFields: Set<keyof StudentRecord>;
+}
+
 export class CsvDataHandler {
-  private static instance: CsvDataHandler;
+  private static instances = new Map<string, CsvDataHandler>();
+  private dictionaryPath: string;
   private dataDictionary: DataDictionary;
+  private validationProfiles: { [name: string]: ValidationProfile };
+  private schemaProfiles: { [name: string]: SchemaProfile };
+  private textNormalization: TextNormalizationConfig;
+  private validator: StudentValidator;
 
-  private constructor() {
-    this.dataDictionary = this.loadDataDictionary();
+  private constructor(dictionaryPath: string) {
+    const dictionaryData = this.readDictionaryFile(dictionaryPath);
+    this.dictionaryPath = dictionaryPath;
+    this.dataDictionary = dictionaryData.fields;
+    this.validationProfiles = dictionaryData.profiles;
+    this.schemaProfiles = dictionaryData.schemas;
+    this.textNormalization = dictionaryData.normalization;
+    this.validator = new StudentValidator(this.dataDictionary);
   }
 
-  public static getInstance(): CsvDataHandler {
-    if (!CsvDataHandler.instance) {
-      CsvDataHandler.instance = new CsvDataHandler();
+  /**
+   * One handler per dictionary file. Without a path, DATA_DICTIONARY from .env is used
+   * when set (relative to the working directory), otherwise the bundled dictionary.
+   */
+  public static getInstance(dictionaryPath?: string): CsvDataHandler {
+    const resolvedPath = path.resolve(dictionaryPath || process.env.DATA_DICTIONARY || DEFAULT_DATA_DICTIONARY_PATH);
+    let instance = CsvDataHandler.instances.get(resolvedPath);
+    if (!instance) {
+      instance = new CsvDataHandler(resolvedPath);
+      CsvDataHandler.instances.set(resolvedPath, instance);
     }
-    return CsvDataHandler.instance;
+    return instance;
+  }
+
+  /**
+   * The handler for a school's own dictionary, `src/config/dictionaries/<schoolCode>.json`,
+   * or the run's dictionary when the school has none.
+   */
+  public static forSchool(schoolCode: string): CsvDataHandler {
+    const schoolPath = path.join(__dirname, '../config/dictionaries', `${schoolCode.trim()}.json`);
+    return CsvDataHandler.getInstance(fs.existsSync(schoolPath) ? schoolPath : undefined);
   }
 
-  private loadDataDictionary(): DataDictionary {
+  private readDictionaryFile(dictionaryPath: string): DataDictionaryFile {
     try {
-      const dictionaryPath = path.join(__dirname, '../config/data-dictionary.json');
-      const dictionaryContent = fs.readFileSync(dictionaryPath, 'utf-8');
-      const dictionaryData = JSON.parse(dictionaryContent);
-      
-      const dictionary: DataDictionary = {};
-      for (const [key, value] of Object.entries(dictionaryData.fields)) {
-        dictionary[key] = value as any;
-      }
-      
-      return dictionary;
+      return readDataDictionaryFile(dictionaryPath);
     } catch (error) {
-      console.error('Could not load data dictionary from file:', error.message);
-      throw new Error(`Failed to load data dictionary: ${error.message}`);
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('Could not load data dictionary from file:', message);
+      throw new Error(`Failed to load data dictionary: ${message}`);
+    }
+  }
+
+  /** Absolute path of the dictionary file this handler was built from. */
+  public getDictionaryPath(): string {
+    return this.dictionaryPath;
+  }
+
+  /**
+   * Loads student records and prints any rejected or suspicious rows. Use
+   * loadStudentDataWithReport to get the rows back as data.
+   */
+  public loadStudentData(csvFilePath: string, options: LoadStudentDataOptions = {}): StudentRecord[] {
+    const { records, report } = this.loadStudentDataWithReport(csvFilePath, options);
+    this.logLoadReport(report);
+    return records;
+  }
+
+  public logLoadReport(report: LoadReport): void {
+    console.log(`📋 File layout: ${this.describeSchema(report.schema)}`);
+    for (const change of report.normalizations) {
+      console.log(
+        `✏️  Line ${change.lineNumber} ${change.field}: "${showInvisibleCharacters(change.before)}" → "${change.after}" (${change.steps.join(', ')})`
+      );
+    }
+    for (const issue of report.issues) {
+      console.warn(`⚠️  Line ${issue.lineNumber} (${issue.severity}): ${issue.reason}`);
+    }
+    if (report.filteredRows > 0) {
+      console.log(`🔎 ${report.filteredRows} of ${report.totalRows} rows skipped by the filter`);
+    }
+    if (report.rejectedRows > 0) {
+      console.warn(`⚠️  ${report.rejectedRows} of ${report.totalRows} rows were rejected from ${path.basename(report.filePath)}`);
     }
   }
 
-  public loadStudentData(csvFilePath: string): StudentRecord[] {
+  public loadStudentDataWithReport(csvFilePath: string, options: LoadStudentDataOptions = {}): StudentLoadResult {
+    let result: StudentLoadResult;
     try {
       const csvContent = fs.readFileSync(csvFilePath, 'utf-8');
-      const lines = csvContent.split('\n');
-      const headers = lines[0].split(',');
-      
-      const students: StudentRecord[] = [];
-      
-      for (let i = 1; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (!line) continue;
-        
-        const values = line.split(',');
-        if (values.length !== headers.length) continue;
-        
-        const student = this.mapRowToStudent(values);
+      result = this.loadStudentRows(parseCsv(csvContent, options), csvFilePath, options);
+    } catch (error) {
+      throw new Error(`Error loading CSV file: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    this.enforceStrictMode(result.report, options);
+    return result;
+  }
+
+  /** Throws when `options.strict` is set and the report has rejected rows. */
+  public enforceStrictMode(report: LoadReport, options: LoadStudentDataOptions): void {
+    if (options.strict && report.rejectedRows > 0) {
+      const rejected = report.issues.filter(issue => issue.severity === 'rejected');
+      const details = rejected.slice(0, 10).map(issue => `line ${issue.lineNumber}: ${issue.reason}`);
+      if (rejected.length > details.length) {
+        details.push(`and ${rejected.length - details.length} more`);
+      }
+      throw new Error(
+        `Strict mode: ${report.rejectedRows} of ${report.totalRows} rows rejected in ${path.basename(report.filePath)} (${details.join('; ')})`
+      );
+    }
+  }
+
+  /**
+   * Streams records from a CSV file while it is being read, so a batch can start on the
+   * first student before the rest of the file is parsed. As with loadStudentData, records
+   * are validated unless `validate: false`. Issues are printed once iteration ends.
+   */
+  public async *streamStudentData(csvFilePath: string, options: LoadStudentDataOptions = {}): AsyncGenerator<StudentRecord> {
+    const { records, report } = this.openStudentStream(csvFilePath, options);
+    yield* records;
+    this.logLoadReport(report);
+  }
+
+  /**
+   * Like streamStudentData, but hands back the report instead of printing it. In strict
+   * mode iteration throws at the first rejected row.
+   */
+  public openStudentStream(csvFilePath: string, options: LoadStudentDataOptions = {}): StudentStream {
+    const report = this.createLoadReport(csvFilePath);
+    const rows = parseCsvStream(fs.createReadStream(csvFilePath, { encoding: 'utf-8' }), options);
+    return { records: this.streamStudentRows(rows, report, options, 'CSV'), report };
+  }
+
+  /** Async counterpart of loadStudentRows, shared by the CSV and Excel streaming loaders. */
+  public async *streamStudentRows(
+    rows: AsyncIterable<CsvRow>,
+    report: LoadReport,
+    options: LoadStudentDataOptions,
+    fileType: string
+  ): AsyncGenerator<StudentRecord> {
+    let reader: RowReader | undefined;
+    try {
+      for await (const row of rows) {
+        if (!reader) {
+          reader = this.createRowReader(row.fields, report, options);
+          continue;
+        }
+        const student = this.readRow(row, reader, report, options);
+        this.enforceStrictMode(report, options);
         if (student) {
-          students.push(student);
+          report.loadedRows++;
+          yield student;
         }
       }
-      
-      return students;
     } catch (error) {
-      throw new Error(`Error loading CSV file: ${error.message}`);
+      throw new Error(`Error loading ${fileType} file: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  private mapRowToStudent(values: string[]): StudentRecord | null {
-    try {
+  public createLoadReport(filePath: string): LoadReport {
+    return { filePath, schema: null, fields: [], totalRows: 0, loadedRows: 0, rejectedRows: 0, filteredRows: 0, issues: [], normalizations: [] };
+  }
+
+  /**
+   * Maps parsed rows (header first) to student records. Shared by every file format,
+   * so spreadsheets get the same header mapping, coercion and load report as CSV files.
+   */
+  public loadStudentRows(rows: CsvRow[], filePath: string, options: LoadStudentDataOptions = {}): StudentLoadResult {
+    const [headerRow, ...dataRows] = rows;
+    const report = this.createLoadReport(filePath);
+    if (!headerRow) {
+      return { records: [], report };
+    }
+    const reader = this.createRowReader(headerRow.fields, report, options);
+
+    const students: StudentRecord[] = [];
+    for (const row of dataRows) {
+      const student = this.readRow(row, reader, report, options);
+      if (student) {
+        students.push(student);
+      }
+    }
+
+    report.loadedRows = students.length;
+    return { records: students, report };
+  }
+
+  /** Maps the header row, records the detected layout and checks required and filter columns. */
+  private createRowReader(headers: string[], report: LoadReport, options: LoadStudentDataOptions): RowReader {
+    const mapping = this.resolveColumnMapping(headers);
+    report.schema = this.detectSchemaFromMapping(mapping);
+    report.fields = mapping.map(column => column.field);
+
+    const profile = options.profile ? this.getValidationProfile(options.profile) : undefined;
+    const requiredFields = options.requiredFields
+      || (profile ? profile.fields : this.getRequiredFields() as (keyof StudentRecord)[]);
+    const filterFields = Object.keys(options.filter || {}) as (keyof StudentRecord)[];
+    const mappedFields = new Set(mapping.map(column => column.field));
+    const missingFields = [...new Set([...requiredFields, ...filterFields])].filter(field => !mappedFields.has(field));
+    if (missingFields.length > 0) {
+      const missingNames = missingFields.map(field => {
+        const info = this.dataDictionary[field];
+        return info ? `${info.thaiName} (${info.englishName})` : field;
+      });
+      throw new Error(`Missing required columns: ${missingNames.join(', ')} (file layout: ${this.describeSchema(report.schema)})`);
+    }
+
+    const filterColumns = filterFields.map(field => {
+      const values = ([] as string[]).concat(options.filter![field]!);
       return {
-        schoolCode: values[0] || '',
-        schoolName: values[1] || '',
-        studentCid: values[2] || '',
-        grade: values[3] || '',
-        room: values[4] || '',
-        studentId: values[5] || '',
-        gender: values[6] || '',
-        titlePrefix: values[7] || '',
-        firstName: values[8] || '',
-        lastName: values[9] || '',
-        birthDate: values[10] || '',
-        age: parseInt(values[11]) || 0,
-        weight: parseInt(values[12]) || 0,
-        height: parseInt(values[13]) || 0,
-        bloodType: values[14] || '',
-        religion: values[15] || '',
-        ethnicity: values[16] || '',
-        nationality: values[17] || '',
-        houseNumber: values[18] || '',
-        village: values[19] || '',
-        street: values[20] || '',
-        subdistrict: values[21] || '',
-        district: values[22] || '',
-        province: values[23] || '',
-        guardianFirstName: values[24] || '',
-        guardianLastName: values[25] || '',
-        guardianOccupation: values[26] || '',
-        guardianRelation: values[27] || '',
-        fatherFirstName: values[28] || '',
-        fatherLastName: values[29] || '',
-        fatherOccupation: values[30] || '',
-        motherFirstName: values[31] || '',
-        motherLastName: values[32] || '',
-        motherOccupation: values[33] || '',
-        disadvantaged: values[34] || '',
-        unresolved: values[35] || '',
-        scoutId: values[36] || '',
-        redcrossyouthId: values[37] || '',
-        swimmingSkills: values[38] || ''
+        field,
+        columnIndex: mapping.find(column => column.field === field)!.columnIndex,
+        accepted: new Set(values.map(value => this.normalizeFilterValue(field, value)))
       };
-    } catch (error) {
-      console.error('Error mapping row to student:', error);
+    });
+    const addressFields: (keyof StudentRecord)[] = ['subdistrict', 'district', 'province'];
+    const checkAddresses = options.addresses !== 'off' && addressFields.some(field => mappedFields.has(field));
+    const typedFields = new Set([...requiredFields, ...(profile ? [...profile.fields, ...(profile.optionalFields || [])] : [])]);
+    return { headers, mapping, filterColumns, checkAddresses, typedFields };
+  }
+
+  private normalizeFilterValue(field: keyof StudentRecord, value: string): string {
+    const text = this.normalizeText(field, value).value.trim();
+    const format = this.dataDictionary[field].format;
+    if (format === 'thaiNationalId') return normalizeThaiNationalId(text);
+    if (format === 'gradeLevel') return parseGrade(text)?.label || text;
+    return text;
+  }
+
+  /** Applies the field's normalization steps from the dictionary (or the default ones). */
+  public normalizeText(field: keyof StudentRecord, value: string): TextNormalizationResult {
+    return normalizeThaiText(value, this.textNormalization.fields[field] || this.textNormalization.default);
+  }
+
+  /**
+   * Checks and maps one data row, recording any issue in the report. Returns null for
+   * blank, filtered-out and rejected rows.
+   */
+  private readRow(row: CsvRow, reader: RowReader, report: LoadReport, options: LoadStudentDataOptions): StudentRecord | null {
+    const { headers, mapping, filterColumns, checkAddresses, typedFields } = reader;
+    const values = row.fields;
+    if (!row.error && values.every(value => value.trim() === '')) {
+      return null;
+    }
+    report.totalRows++;
+
+    const issue = (severity: LoadIssue['severity'], reason: string) => {
+      report.issues.push({ lineNumber: row.lineNumber, severity, reason, raw: row.raw });
+      if (severity === 'rejected') report.rejectedRows++;
+    };
+    if (row.error) {
+      issue('rejected', row.error);
+      return null;
+    }
+
+    const matchesFilter = filterColumns.every(({ field, columnIndex, accepted }) =>
+      accepted.has(this.normalizeFilterValue(field, values[columnIndex] || ''))
+    );
+    if (!matchesFilter) {
+      report.filteredRows++;
       return null;
     }
+
+    if (values.length !== headers.length) {
+      const extraCellsEmpty = values.length > headers.length
+        && values.slice(headers.length).every(value => value.trim() === '');
+      if (!extraCellsEmpty) {
+        issue('rejected', `Expected ${headers.length} columns but found ${values.length}`);
+        return null;
+      }
+      issue('warning', `${values.length - headers.length} empty trailing cells ignored`);
+    }
+
+    const mapped = this.mapRowToStudent(values, mapping);
+    if (mapped.error) {
+      issue('rejected', mapped.error);
+      return null;
+    }
+    const typeErrors = mapped.typeErrors.filter(error => typedFields.has(error.field));
+    if (typeErrors.length > 0) {
+      issue('rejected', typeErrors.map(error => error.message).join('; '));
+      return null;
+    }
+    for (const { message } of mapped.typeErrors) {
+      issue('warning', `${message}, kept as text`);
+    }
+    for (const change of mapped.changes) {
+      report.normalizations.push({ lineNumber: row.lineNumber, ...change });
+    }
+    if (checkAddresses) {
+      this.checkAddress(mapped.student!, row.lineNumber, report, options, reason => issue('warning', reason));
+    }
+
+    if (options.validate !== false) {
+      const validation = this.validateStudentRecord(mapped.student!, { profile: options.profile, row: row.lineNumber });
+      if (!validation.isValid) {
+        issue('rejected', validation.errors.map(error => error.message).join('; '));
+        return null;
+      }
+    }
+    return mapped.student!;
+  }
+
+  /**
+   * Looks the record's subdistrict/district/province up in the address dataset. Close
+   * misspellings are corrected in place (recorded as normalizations) when `options.addresses`
+   * is 'correct'; anything else that does not resolve is flagged as a warning.
+   */
+  private checkAddress(
+    student: StudentRecord,
+    lineNumber: number,
+    report: LoadReport,
+    options: LoadStudentDataOptions,
+    warn: (reason: string) => void
+  ): void {
+    const result = checkThaiAddress(student);
+    if (result.status === 'empty') return;
+    if (result.status === 'invalid' || result.status === 'incomplete') {
+      warn(result.message);
+      return;
+    }
+
+    if (options.addresses !== 'correct') {
+      if (result.status === 'corrected') warn(`Address looks misspelled, did you mean ${formatThaiAddress(result.address)}?`);
+      return;
+    }
+    for (const correction of result.corrections) {
+      student[correction.field] = correction.after;
+      report.normalizations.push({ lineNumber, ...correction, steps: ['addressLookup'] });
+    }
+  }
+
+  /**
+   * Matches header cells to dictionary fields by Thai name, English name or field key
+   * (case- and whitespace-insensitive). Only a file with exactly the full export's column
+   * count falls back to dictionary columnIndex for unmatched fields, so a short list with an
+   * unfamiliar header is never read as if it were the 39-column layout.
+   */
+  public resolveColumnMapping(headers: string[]): ColumnMapping[] {
+    const normalize = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+    const headerIndexByName = new Map<string, number>();
+    headers.forEach((header, index) => {
+      const name = normalize(header);
+      if (name && !headerIndexByName.has(name)) {
+        headerIndexByName.set(name, index);
+      }
+    });
+
+    const mapping: ColumnMapping[] = [];
+    const claimedColumns = new Set<number>();
+    const unmatchedFields: string[] = [];
+
+    for (const [field, info] of Object.entries(this.dataDictionary)) {
+      const index = [info.thaiName, info.englishName, field]
+        .map(name => headerIndexByName.get(normalize(name)))
+        .find(candidate => candidate !== undefined && !claimedColumns.has(candidate));
+
+      if (index === undefined) {
+        unmatchedFields.push(field);
+        continue;
+      }
+      claimedColumns.add(index);
+      mapping.push({ field: field as keyof StudentRecord, columnIndex: index, header: headers[index], matchedBy: 'header' });
+    }
+
+    const positional = headers.length === this.getColumnCount();
+    for (const field of positional ? unmatchedFields : []) {
+      const index = this.dataDictionary[field].columnIndex;
+      if (index === undefined || claimedColumns.has(index)) {
+        continue;
+      }
+      claimedColumns.add(index);
+      mapping.push({ field: field as keyof StudentRecord, columnIndex: index, header: headers[index], matchedBy: 'columnIndex' });
+    }
+
+    return mapping;
+  }
+
+  /**
+   * Names the schema profile a header row matches: the one with the most fields whose
+   * columns are all present. Returns null when no profile matches.
+   */
+  public detectSchema(headers: string[]): string | null {
+    return this.detectSchemaFromMapping(this.resolveColumnMapping(headers));
+  }
+
+  private detectSchemaFromMapping(mapping: ColumnMapping[]): string | null {
+    const mappedFields = new Set(mapping.map(column => column.field));
+    let detected: string | null = null;
+    for (const [name, schema] of Object.entries(this.schemaProfiles)) {
+      const matches = schema.fields.every(field => mappedFields.has(field));
+      if (matches && (detected === null || schema.fields.length > this.schemaProfiles[detected].fields.length)) {
+        detected = name;
+      }
+    }
+    return detected;
+  }
+
+  private describeSchema(name: string | null): string {
+    return name ? `${name} (${this.schemaProfiles[name].description})` : 'not recognised';
+  }
+
+  /**
+   * Builds a record from one data row, normalizing the text of each cell and coercing it
+   * to its dictionary type. Cells that cannot be coerced keep their text and are returned
+   * as type errors rather than guessed; normalized cells are returned as changes.
+   */
+  private mapRowToStudent(
+    values: string[],
+    mapping: ColumnMapping[]
+  ): {
+    student?: StudentRecord;
+    typeErrors: { field: keyof StudentRecord; message: string }[];
+    changes: Omit<NormalizationChange, 'lineNumber'>[];
+    error?: string;
+  } {
+    const typeErrors: { field: keyof StudentRecord; message: string }[] = [];
+    const changes: Omit<NormalizationChange, 'lineNumber'>[] = [];
+    try {
+      const columnByField = new Map(mapping.map(column => [column.field, column.columnIndex]));
+      const student: { [field: string]: unknown } = {};
+
+      for (const [field, info] of Object.entries(this.dataDictionary)) {
+        const index = columnByField.get(field as keyof StudentRecord);
+        const cell = index === undefined ? '' : values[index] || '';
+        const normalized = this.normalizeText(field as keyof StudentRecord, cell);
+        if (normalized.applied.length > 0) {
+          changes.push({ field: field as keyof StudentRecord, before: cell, after: normalized.value, steps: normalized.applied });
+        }
+        const raw = normalized.value;
+        const result = coerceValue(info.format === 'thaiNationalId' ? normalizeThaiNationalId(raw) : raw, info.type);
+        if (result.error) {
+          typeErrors.push({ field: field as keyof StudentRecord, message: `${info.englishName} ${result.error}` });
+        }
+        student[field] = result.value;
+      }
+
+      return { student: student as unknown as StudentRecord, typeErrors, changes };
+    } catch (error) {
+      return { typeErrors, changes, error: `Could not map row: ${error instanceof Error ? error.message : String(error)}` };
+    }
   }
 
   public getStudentIds(csvFilePath: string): string[] {
@@ -185,54 +659,94 @@ export class CsvDataHandler {
     return this.dataDictionary;
   }
 
-  public validateStudentRecord(student: StudentRecord): { isValid: boolean; errors: string[] } {
-    const errors: string[] = [];
-    
-    if (!student.studentCid || student.studentCid.trim() === '') {
-      errors.push('National ID is required');
-    } else if (!/^[0-9]{13}$/.test(student.studentCid)) {
-      errors.push('National ID must be 13 digits');
+  public getValidationProfile(name: string): ValidationProfile {
+    const profile = this.validationProfiles[name];
+    if (!profile) {
+      throw new Error(`Unknown validation profile: ${name}`);
     }
-    
-    if (!student.studentId || student.studentId.trim() === '') {
-      errors.push('Student number is required');
-    }
-    
-    if (!student.firstName || student.firstName.trim() === '') {
-      errors.push('First name is required');
-    }
-    
-    if (!student.lastName || student.lastName.trim() === '') {
-      errors.push('Last name is required');
+    return profile;
+  }
+
+  public getValidationProfileNames(): string[] {
+    return Object.keys(this.validationProfiles);
+  }
+
+  public getSchemaProfile(name: string): SchemaProfile {
+    const schema = this.schemaProfiles[name];
+    if (!schema) {
+      throw new Error(`Unknown schema profile: ${name}`);
     }
-    
-    if (!student.schoolCode || student.schoolCode.trim() === '') {
-      errors.push('School code is required');
+    return schema;
+  }
+
+  public getSchemaProfileNames(): string[] {
+    return Object.keys(this.schemaProfiles);
+  }
+
+  /**
+   * Validates a record against the data dictionary. With a profile, only the fields of
+   * that operation are checked; without one, every dictionary field is.
+   */
+  public validateStudentRecord(
+    student: StudentRecord,
+    options: { profile?: string; row?: number; educationYear?: string | number } = {}
+  ): ValidationResult {
+    return this.validator.validate(student, {
+      profile: options.profile ? this.getValidationProfile(options.profile) : undefined,
+      row: options.row,
+      educationYear: options.educationYear
+    });
+  }
+
+  /**
+   * Writes records so that loadStudentData reads them back unchanged: cells are quoted
+   * as needed, absent values are written empty and dates as dd/mm/yyyy B.E.
+   */
+  public exportToCsv(students: StudentRecord[], outputPath: string, options: ExportCsvOptions = {}): void {
+    writeCsvFile(outputPath, this.buildExportRows(students, options), {
+      bom: options.bom !== false,
+      delimiter: options.delimiter
+    });
+  }
+
+  /** Header row plus one formatted row per student, as written by the exporters. */
+  public buildExportRows(
+    students: StudentRecord[],
+    options: Pick<ExportCsvOptions, 'headerLanguage' | 'fields'> = {}
+  ): string[][] {
+    const fields = this.getExportFields(options);
+    const headers = fields.map(field => {
+      const info = this.dataDictionary[field];
+      return options.headerLanguage === 'english' ? info.englishName : info.thaiName;
+    });
+    const rows = students.map(student => fields.map(field => formatValue(student[field])));
+    return [headers, ...rows];
+  }
+
+  public getExportFields(options: Pick<ExportCsvOptions, 'fields'> = {}): (keyof StudentRecord)[] {
+    const fields = options.fields || (Object.keys(this.dataDictionary) as (keyof StudentRecord)[])
+      .sort((a, b) => this.exportPosition(a) - this.exportPosition(b));
+    for (const field of fields) {
+      if (!this.dataDictionary[field]) {
+        throw new Error(`Unknown field: ${field}`);
+      }
     }
-    
-    return {
-      isValid: errors.length === 0,
-      errors
-    };
+    return fields;
   }
 
-  public exportToCsv(students: StudentRecord[], outputPath: string): void {
-    const headers = Object.keys(this.dataDictionary);
-    const thaiHeaders = headers.map(key => this.dataDictionary[key].thaiName);
-    const csvContent = thaiHeaders.join(',') + '\n' +
-      students.map(student => 
-        headers.map(header => student[header as keyof StudentRecord] || '').join(',')
-      ).join('\n');
-    
-    fs.writeFileSync(outputPath, csvContent, 'utf-8');
+  /** Fields without a columnIndex come after the export's columns, in dictionary order. */
+  private exportPosition(field: keyof StudentRecord): number {
+    const index = this.dataDictionary[field].columnIndex;
+    return index === undefined ? Number.MAX_SAFE_INTEGER : index;
   }
 
-  public getFieldInfo(fieldKey: string): any {
+  public getFieldInfo(fieldKey: string): DataDictionary[string] {
     return this.dataDictionary[fieldKey];
   }
 
+  /** Column count of the full DMC export: the fields that have a columnIndex. */
   public getColumnCount(): number {
-    return Object.keys(this.dataDictionary).length;
+    return Object.values(this.dataDictionary).filter(info => info.columnIndex !== undefined).length;
   }
 
   public getRequiredFields(): string[] {
@@ -0,0 +1,206 @@
+export type CsvDelimiter = ',' | '\t' | ';';
+
+export interface CsvParseOptions {
+  /** Field delimiter, or 'auto' to detect it from the header line (default). */
+  delimiter?: CsvDelimiter | 'auto';
+  /** Throw when the input ends inside a quoted field, instead of returning the rest as a row with an `error`. */
+  strict?: boolean;
+}
+
+export interface CsvRow {
+  /** 1-based line number in the source file where the row starts. */
+  lineNumber: number;
+  fields: string[];
+  /** Source text of the row, without its line terminator. */
+  raw: string;
+  /** Set when the row could not be parsed; `fields` then holds what was read of it. */
+  error?: string;
+}
+
+const SUPPORTED_DELIMITERS: CsvDelimiter[] = [',', '\t', ';'];
+const BOM = '\uFEFF';
+
+export function stripBom(content: string): string {
+  return content.startsWith(BOM) ? content.slice(1) : content;
+}
+
+/** Counts delimiters outside quotes in the first line, and whether that line has ended. */
+function scanFirstLine(content: string): { counts: Map<CsvDelimiter, number>; complete: boolean } {
+  const counts = new Map<CsvDelimiter, number>(SUPPORTED_DELIMITERS.map(d => [d, 0]));
+  let inQuotes = false;
+
+  for (const char of stripBom(content)) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      return { counts, complete: true };
+    } else if (!inQuotes && counts.has(char as CsvDelimiter)) {
+      counts.set(char as CsvDelimiter, counts.get(char as CsvDelimiter)! + 1);
+    }
+  }
+  return { counts, complete: false };
+}
+
+/**
+ * Picks the delimiter that occurs most often (outside quotes) in the first line.
+ * Falls back to a comma when none of the supported delimiters are present.
+ */
+export function detectDelimiter(content: string): CsvDelimiter {
+  const { counts } = scanFirstLine(content);
+  let best: CsvDelimiter = ',';
+  for (const delimiter of SUPPORTED_DELIMITERS) {
+    if (counts.get(delimiter)! > counts.get(best)!) {
+      best = delimiter;
+    }
+  }
+  return best;
+}
+
+/**
+ * Incremental RFC 4180 parser: feed text with write() as it arrives and call end()
+ * once the input is exhausted. Only the row being parsed is kept in memory, so files
+ * of any size can be read in chunks. Quoted fields, doubled quotes, embedded newlines,
+ * CRLF/LF/CR line endings and a leading UTF-8 BOM are handled; blank lines are skipped.
+ */
+export class CsvStreamParser {
+  private delimiter: CsvDelimiter | null;
+  private buffer = '';
+  private position = 0;
+  private bomChecked = false;
+  private fields: string[] = [];
+  private field = '';
+  private inQuotes = false;
+  private line = 1;
+  private rowStartLine = 1;
+  private rowStartIndex = 0;
+  private quoteStartLine = 1;
+  private strict: boolean;
+
+  constructor(options: CsvParseOptions = {}) {
+    this.delimiter = !options.delimiter || options.delimiter === 'auto' ? null : options.delimiter;
+    this.strict = options.strict === true;
+  }
+
+  /** Adds a chunk of text and returns the rows it completed. */
+  public write(chunk: string): CsvRow[] {
+    this.buffer += chunk;
+    return this.consume(false);
+  }
+
+  /**
+   * Flushes the last row. When the input ends inside a quoted field, the rest of the input
+   * is returned as one row with an `error`, or the parser throws in strict mode.
+   */
+  public end(): CsvRow[] {
+    const rows = this.consume(true);
+    if (this.inQuotes) {
+      const error = `Unterminated quoted field starting on line ${this.quoteStartLine}`;
+      if (this.strict) {
+        throw new Error(error);
+      }
+      this.inQuotes = false;
+      this.endRow(this.buffer.length, rows, error);
+    } else if (this.field !== '' || this.fields.length > 0) {
+      this.endRow(this.buffer.length, rows);
+    }
+    return rows;
+  }
+
+  private endRow(endIndex: number, rows: CsvRow[], error?: string): void {
+    this.fields.push(this.field);
+    if (this.fields.length > 1 || this.fields[0] !== '' || error) {
+      rows.push({
+        lineNumber: this.rowStartLine,
+        fields: this.fields,
+        raw: this.buffer.slice(this.rowStartIndex, endIndex),
+        ...(error && { error })
+      });
+    }
+    this.fields = [];
+    this.field = '';
+  }
+
+  private consume(final: boolean): CsvRow[] {
+    const rows: CsvRow[] = [];
+    if (!this.bomChecked) {
+      if (this.buffer === '' && !final) return rows;
+      this.buffer = stripBom(this.buffer);
+      this.bomChecked = true;
+    }
+    if (this.delimiter === null) {
+      // Wait for the whole header line before detecting the delimiter
+      if (!final && !scanFirstLine(this.buffer).complete) return rows;
+      this.delimiter = detectDelimiter(this.buffer);
+    }
+
+    const text = this.buffer;
+    let i = this.position;
+    for (; i < text.length; i++) {
+      const char = text[i];
+
+      // A quote inside quotes or a CR needs the next character; wait for more input
+      if (!final && i + 1 === text.length && (char === '\r' || (char === '"' && this.inQuotes))) {
+        break;
+      }
+
+      if (this.inQuotes) {
+        if (char === '"') {
+          if (text[i + 1] === '"') {
+            this.field += '"';
+            i++;
+          } else {
+            this.inQuotes = false;
+          }
+        } else {
+          if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) {
+            this.line++;
+          }
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (char === '"' && this.field === '') {
+        this.inQuotes = true;
+        this.quoteStartLine = this.line;
+      } else if (char === this.delimiter) {
+        this.fields.push(this.field);
+        this.field = '';
+      } else if (char === '\r' || char === '\n') {
+        this.endRow(i, rows);
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        this.line++;
+        this.rowStartLine = this.line;
+        this.rowStartIndex = i + 1;
+      } else {
+        this.field += char;
+      }
+    }
+
+    // Drop the text of completed rows
+    this.buffer = text.slice(this.rowStartIndex);
+    this.position = i - this.rowStartIndex;
+    this.rowStartIndex = 0;
+    return rows;
+  }
+}
+
+/** Parses a whole CSV document; see CsvStreamParser for the accepted syntax. */
+export function parseCsv(content: string, options: CsvParseOptions = {}): CsvRow[] {
+  const parser = new CsvStreamParser(options);
+  return [...parser.write(content), ...parser.end()];
+}
+
+/** Yields rows from a stream of text chunks, e.g. `fs.createReadStream(path, 'utf-8')`. */
+export async function* parseCsvStream(
+  chunks: AsyncIterable<string>,
+  options: CsvParseOptions = {}
+): AsyncGenerator<CsvRow> {
+  const parser = new CsvStreamParser(options);
+  for await (const chunk of chunks) {
+    yield* parser.write(chunk);
+  }
+  yield* parser.end();
+}
@@ -0,0 +1,36 @@
+import * as fs from 'fs';
+import { CsvDelimiter } from './csv-parser';
+
+export type CsvCell = string | number | boolean | null | undefined;
+
+export interface CsvWriteOptions {
+  delimiter?: CsvDelimiter;
+  /** Prefix a UTF-8 BOM so Excel opens Thai text correctly. */
+  bom?: boolean;
+  lineEnding?: '\r\n' | '\n';
+}
+
+/**
+ * Quotes a cell when it contains a quote, a line break or any supported delimiter
+ * (RFC 4180). Quoting every delimiter, not just the active one, keeps delimiter
+ * detection on reload from splitting single-column files.
+ */
+export function formatCsvCell(cell: CsvCell, delimiter: CsvDelimiter = ','): string {
+  const text = cell === null || cell === undefined ? '' : String(cell);
+  if (/[",;\t\r\n]/.test(text) || text.includes(delimiter)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+export function stringifyCsv(rows: CsvCell[][], options: CsvWriteOptions = {}): string {
+  const delimiter = options.delimiter || ',';
+  const lineEnding = options.lineEnding || '\r\n';
+  const body = rows.map(row => row.map(cell => formatCsvCell(cell, delimiter)).join(delimiter)).join(lineEnding);
+  return (options.bom ? '\uFEFF' : '') + body;
+}
+
+/** Writes rows (header first) to disk; a BOM is included unless `bom: false` is passed. */
+export function writeCsvFile(filePath: string, rows: CsvCell[][], options: CsvWriteOptions = {}): void {
+  fs.writeFileSync(filePath, stringifyCsv(rows, { ...options, bom: options.bom !== false }), 'utf-8');
+}
@@ -0,0 +1,147 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Page } from '@playwright/test';
+import { PortalHome } from '../pages/portal-home';
+import { isShown } from '../pages/wait';
+import { StudentLoadResult, StudentRecord } from './csv-data-handler';
+import { loadStudentFileWithReport } from './student-file-loader';
+
+export const DEFAULT_SNAPSHOT_DIR = path.join(__dirname, '../../data/snapshots');
+
+const SNAPSHOT_FILE = /^students_(\d{4}-\d{2}-\d{2})\.(csv|xlsx)$/;
+
+export interface DailyListSnapshot {
+  schoolCode: string;
+  /** Local date the list was downloaded, YYYY-MM-DD. */
+  date: string;
+  filePath: string;
+}
+
+export interface DownloadDailyListOptions {
+  schoolCode: string;
+  /** Defaults to data/snapshots; each school gets its own folder. */
+  snapshotDir?: string;
+  /** Download again even if today's snapshot exists. The portal only rebuilds the list once a day. */
+  force?: boolean;
+}
+
+function localDate(date: Date = new Date()): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Downloads the daily student list through the logged-in session and stores it as
+ * `<snapshotDir>/<schoolCode>/students_<date>.<ext>`. The file is fetched with the
+ * session's cookies when the link points at it; otherwise the link is clicked and the
+ * browser download is saved, which is slower over CDP but works for script links.
+ */
+export async function downloadDailyStudentList(
+  page: Page,
+  dmcPortalUrl: string,
+  options: DownloadDailyListOptions
+): Promise<DailyListSnapshot> {
+  const directory = path.join(options.snapshotDir || DEFAULT_SNAPSHOT_DIR, options.schoolCode);
+  const date = localDate();
+  const existing = listDailySnapshots(options.schoolCode, options.snapshotDir).find(snapshot => snapshot.date === date);
+  if (existing && !options.force) {
+    console.log(`📦 Today's student list is already saved: ${existing.filePath}`);
+    return existing;
+  }
+
+  const home = new PortalHome(page, dmcPortalUrl);
+  await home.goto();
+  const link = home.dailyListLink;
+  if (!(await isShown(link))) {
+    throw new Error('The daily student list link is not on the portal home page; is the user logged in?');
+  }
+
+  fs.mkdirSync(directory, { recursive: true });
+  const href = await link.getAttribute('href');
+  let fileName: string;
+  let content: Buffer;
+  if (href && !href.startsWith('#') && !href.startsWith('javascript:')) {
+    const response = await page.context().request.get(new URL(href, page.url()).toString(), { timeout: 120000 });
+    if (!response.ok()) {
+      throw new Error(`Download of the daily student list failed: HTTP ${response.status()}`);
+    }
+    const disposition = response.headers()['content-disposition'] || '';
+    const match = disposition.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i);
+    fileName = match ? decodeURIComponent(match[1]) : path.basename(new URL(response.url()).pathname);
+    content = await response.body();
+  } else {
+    const [download] = await Promise.all([page.waitForEvent('download', { timeout: 120000 }), link.click()]);
+    fileName = download.suggestedFilename();
+    const temporaryPath = path.join(directory, `.download_${Date.now()}`);
+    await download.saveAs(temporaryPath);
+    content = fs.readFileSync(temporaryPath);
+    fs.unlinkSync(temporaryPath);
+  }
+
+  const extension = path.extname(fileName).toLowerCase().replace('.', '');
+  if (extension !== 'csv' && extension !== 'xlsx') {
+    const keptPath = path.join(directory, `students_${date}_${fileName}`);
+    fs.writeFileSync(keptPath, content);
+    throw new Error(`The daily student list came as "${fileName}", which cannot be read (expected .csv or .xlsx); saved to ${keptPath}`);
+  }
+
+  const filePath = path.join(directory, `students_${date}.${extension}`);
+  fs.writeFileSync(filePath, content);
+  console.log(`📦 Saved today's student list (${(content.length / 1024).toFixed(0)} KB) to ${filePath}`);
+  return { schoolCode: options.schoolCode, date, filePath };
+}
+
+/** Saved snapshots of a school, oldest first. */
+export function listDailySnapshots(schoolCode: string, snapshotDir: string = DEFAULT_SNAPSHOT_DIR): DailyListSnapshot[] {
+  const directory = path.join(snapshotDir, schoolCode);
+  if (!fs.existsSync(directory)) {
+    return [];
+  }
+  return fs.readdirSync(directory)
+    .map(fileName => ({ fileName, match: fileName.match(SNAPSHOT_FILE) }))
+    .filter(({ match }) => match !== null)
+    .map(({ fileName, match }) => ({ schoolCode, date: match![1], filePath: path.join(directory, fileName) }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function latestDailySnapshot(schoolCode: string, snapshotDir?: string): DailyListSnapshot | null {
+  const snapshots = listDailySnapshots(schoolCode, snapshotDir);
+  return snapshots.length > 0 ? snapshots[snapshots.length - 1] : null;
+}
+
+/**
+ * Reads every row of a snapshot. The list is the portal's own, so no import mapping applies
+ * and the only columns it must have are those students are looked up by: national ID or
+ * student ID. A list with neither is an error rather than an empty roster.
+ */
+export async function loadDailySnapshot(snapshot: DailyListSnapshot): Promise<StudentLoadResult> {
+  const result = await loadStudentFileWithReport(snapshot.filePath, { requiredFields: [], validate: false, addresses: 'off', mapping: '' });
+  const { fields } = result.report;
+  if (!fields.includes('studentCid') && !fields.includes('studentId')) {
+    throw new Error(`The daily list ${snapshot.filePath} has neither a national ID nor a student ID column (columns found: ${fields.join(', ') || 'none'})`);
+  }
+  return result;
+}
+
+/** Students of a snapshot, looked up by national ID or by school code and student ID. */
+export class StudentRoster {
+  private byCid = new Map<string, StudentRecord>();
+  private byStudentId = new Map<string, StudentRecord>();
+
+  constructor(public readonly records: StudentRecord[]) {
+    for (const record of records) {
+      const cid = record.studentCid.trim();
+      if (cid) this.byCid.set(cid, record);
+      const studentId = record.studentId.trim();
+      if (studentId) this.byStudentId.set(`${record.schoolCode.trim()}|${studentId}`, record);
+    }
+  }
+
+  public findByCid(studentCid: string): StudentRecord | undefined {
+    return this.byCid.get(studentCid.trim());
+  }
+
+  public findByStudentId(schoolCode: string, studentId: string): StudentRecord | undefined {
+    return this.byStudentId.get(`${schoolCode.trim()}|${studentId.trim()}`);
+  }
+}
@@ -0,0 +1,263 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DataDictionary, SchemaProfile, TextNormalizationConfig, ValidationProfile } from './csv-data-handler';
+import { isTextNormalization } from './thai-text';
+import { FieldType } from './value-coercion';
+
+export const DEFAULT_DATA_DICTIONARY_PATH = path.join(__dirname, '../config/data-dictionary.json');
+
+/** A dictionary file once its `extends` chain has been merged and checked. */
+export interface DataDictionaryFile {
+  fields: DataDictionary;
+  profiles: { [name: string]: ValidationProfile };
+  normalization: TextNormalizationConfig;
+  schemas: { [name: string]: SchemaProfile };
+  metadata: { [key: string]: unknown };
+}
+
+type FieldInfo = DataDictionary[string];
+
+const SECTIONS = ['extends', 'fields', 'profiles', 'normalization', 'schemas', 'metadata'];
+const FIELD_PROPERTIES = [
+  'thaiName', 'englishName', 'type', 'required', 'description', 'example', 'columnIndex', 'format', 'validation', 'allowedValues'
+];
+const VALIDATION_PROPERTIES = ['pattern', 'message', 'messageTh'];
+const PROFILE_PROPERTIES = ['description', 'fields', 'optionalFields', 'requiredFields'];
+const FIELD_TYPES: FieldType[] = ['string', 'number', 'date'];
+const FIELD_FORMATS: NonNullable<FieldInfo['format']>[] = ['thaiNationalId', 'gradeLevel'];
+
+/** A parsed JSON object whose properties have not been checked yet. */
+export type JsonObject = { [key: string]: unknown };
+
+/** True for a JSON object, as opposed to an array, null or a primitive; shared by the config file readers. */
+export function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads a dictionary file, follows its `extends` chain and checks the merged result.
+ * `extends` is a path relative to the file; a school dictionary usually extends the
+ * bundled one and only lists its own fields, profiles and overrides. Throws with every
+ * problem found, one per line.
+ */
+export function readDataDictionaryFile(filePath: string): DataDictionaryFile {
+  const dictionary = readWithBase(path.resolve(filePath), []);
+  const errors = validateDataDictionary(dictionary);
+  if (errors.length > 0) {
+    throw new Error(`Invalid data dictionary ${filePath}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+  return dictionary;
+}
+
+function readWithBase(filePath: string, chain: string[]): DataDictionaryFile {
+  if (chain.includes(filePath)) {
+    throw new Error(`Circular extends: ${[...chain, filePath].join(' → ')}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Cannot read ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!isObject(raw)) {
+    throw new Error(`${filePath} must contain a JSON object`);
+  }
+
+  const problems = Object.keys(raw)
+    .filter(key => !SECTIONS.includes(key))
+    .map(key => `unknown section "${key}"`);
+  for (const section of SECTIONS.slice(1)) {
+    if (raw[section] !== undefined && !isObject(raw[section])) problems.push(`"${section}" must be an object`);
+  }
+  if (raw.extends !== undefined && typeof raw.extends !== 'string') problems.push('"extends" must be a file path');
+  if (raw.extends === undefined && raw.fields === undefined) problems.push('"fields" is missing');
+  if (problems.length > 0) {
+    throw new Error(`Invalid data dictionary ${filePath}:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+  }
+
+  const base: DataDictionaryFile = typeof raw.extends === 'string'
+    ? readWithBase(path.resolve(path.dirname(filePath), raw.extends), [...chain, filePath])
+    : { fields: {}, profiles: {}, normalization: { default: [], fields: {} }, schemas: {}, metadata: {} };
+  return mergeDataDictionary(base, raw);
+}
+
+/**
+ * Layers a dictionary over its base: a field listed in both is merged property by property,
+ * so an override only needs the properties it changes; profiles and schemas are replaced
+ * by name; normalization steps are replaced per field.
+ */
+function mergeDataDictionary(base: DataDictionaryFile, raw: JsonObject): DataDictionaryFile {
+  // readWithBase has checked that each section is an object; validateDataDictionary checks what is in them
+  const section = <T>(name: string): T => (raw[name] || {}) as T;
+  const fields: DataDictionary = { ...base.fields };
+  for (const [key, info] of Object.entries(section<JsonObject>('fields'))) {
+    fields[key] = isObject(info) && base.fields[key] ? { ...base.fields[key], ...info } : info as FieldInfo;
+  }
+  const normalization = section<Partial<TextNormalizationConfig>>('normalization');
+  return {
+    fields,
+    profiles: { ...base.profiles, ...section<DataDictionaryFile['profiles']>('profiles') },
+    normalization: {
+      default: normalization.default !== undefined ? normalization.default : base.normalization.default,
+      fields: { ...base.normalization.fields, ...normalization.fields }
+    },
+    schemas: { ...base.schemas, ...section<DataDictionaryFile['schemas']>('schemas') },
+    metadata: { ...base.metadata, ...section<JsonObject>('metadata') }
+  };
+}
+
+/** Lists every structural problem in a merged dictionary; empty when it is usable. */
+export function validateDataDictionary(dictionary: DataDictionaryFile): string[] {
+  const errors: string[] = [];
+  const fieldNames = Object.keys(dictionary.fields);
+  if (fieldNames.length === 0) {
+    errors.push('fields: at least one field is required');
+  }
+
+  const columns = new Map<number, string>();
+  const headers = new Map<string, string>();
+  for (const [name, info] of Object.entries(dictionary.fields)) {
+    const at = `fields.${name}`;
+    if (!isObject(info)) {
+      errors.push(`${at} must be an object`);
+      continue;
+    }
+    errors.push(...unknownProperties(at, info, FIELD_PROPERTIES));
+
+    for (const property of ['thaiName', 'englishName', 'description'] as const) {
+      if (typeof info[property] !== 'string' || info[property].trim() === '') {
+        errors.push(`${at}.${property} must be a non-empty string`);
+      }
+    }
+    if (!FIELD_TYPES.includes(info.type)) {
+      errors.push(`${at}.type must be one of ${FIELD_TYPES.join(', ')} (found ${JSON.stringify(info.type)})`);
+    }
+    if (typeof info.required !== 'boolean') {
+      errors.push(`${at}.required must be true or false`);
+    }
+    if (info.example !== undefined && typeof info.example !== 'string') {
+      errors.push(`${at}.example must be a string`);
+    }
+    if (info.format !== undefined && !FIELD_FORMATS.includes(info.format)) {
+      errors.push(`${at}.format must be one of ${FIELD_FORMATS.join(', ')} (found ${JSON.stringify(info.format)})`);
+    }
+
+    if (info.columnIndex !== undefined) {
+      if (!Number.isInteger(info.columnIndex) || info.columnIndex < 0) {
+        errors.push(`${at}.columnIndex must be a whole number from 0`);
+      } else if (columns.has(info.columnIndex)) {
+        errors.push(`${at}.columnIndex ${info.columnIndex} is already used by ${columns.get(info.columnIndex)}`);
+      } else {
+        columns.set(info.columnIndex, name);
+      }
+    }
+
+    // Header cells are matched by either name or the key, case-insensitively, so they must not collide
+    for (const header of [info.thaiName, info.englishName, name]) {
+      if (typeof header !== 'string') continue;
+      const normalized = header.trim().replace(/\s+/g, ' ').toLowerCase();
+      const owner = headers.get(normalized);
+      if (owner && owner !== name) {
+        errors.push(`${at}: header name "${header}" is also used by ${owner}`);
+      } else {
+        headers.set(normalized, name);
+      }
+    }
+
+    if (info.validation !== undefined) {
+      if (!isObject(info.validation)) {
+        errors.push(`${at}.validation must be an object`);
+      } else {
+        errors.push(...unknownProperties(`${at}.validation`, info.validation, VALIDATION_PROPERTIES));
+        if (typeof info.validation.pattern !== 'string') {
+          errors.push(`${at}.validation.pattern must be a string`);
+        } else {
+          try {
+            new RegExp(info.validation.pattern);
+          } catch (error) {
+            errors.push(`${at}.validation.pattern is not a valid regular expression: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+        if (typeof info.validation.message !== 'string') {
+          errors.push(`${at}.validation.message must be a string`);
+        }
+        if (info.validation.messageTh !== undefined && typeof info.validation.messageTh !== 'string') {
+          errors.push(`${at}.validation.messageTh must be a string`);
+        }
+      }
+    }
+
+    if (info.allowedValues !== undefined) {
+      const values: unknown = info.allowedValues;
+      if (!Array.isArray(values) || values.length === 0 || values.some(value => typeof value !== 'string')) {
+        errors.push(`${at}.allowedValues must be a non-empty list of strings`);
+      } else {
+        const repeated = values.filter((value, index) => values.indexOf(value) !== index);
+        if (repeated.length > 0) errors.push(`${at}.allowedValues lists ${repeated.map(value => `"${value}"`).join(', ')} more than once`);
+      }
+    }
+  }
+
+  const fieldList = (at: string, value: unknown, required: boolean): string[] => {
+    if (value === undefined && !required) return [];
+    if (!Array.isArray(value)) return [`${at} must be a list of field names`];
+    return value
+      .filter(field => !fieldNames.includes(field))
+      .map(field => `${at} names unknown field ${JSON.stringify(field)}`);
+  };
+
+  for (const [name, profile] of Object.entries(dictionary.profiles)) {
+    const at = `profiles.${name}`;
+    if (!isObject(profile)) {
+      errors.push(`${at} must be an object`);
+      continue;
+    }
+    errors.push(...unknownProperties(at, profile, PROFILE_PROPERTIES));
+    if (typeof profile.description !== 'string') errors.push(`${at}.description must be a string`);
+    errors.push(...fieldList(`${at}.fields`, profile.fields, true));
+    errors.push(...fieldList(`${at}.optionalFields`, profile.optionalFields, false));
+    errors.push(...fieldList(`${at}.requiredFields`, profile.requiredFields, true));
+    if (Array.isArray(profile.fields) && Array.isArray(profile.requiredFields)) {
+      for (const field of profile.requiredFields.filter(field => !profile.fields.includes(field))) {
+        errors.push(`${at}.requiredFields lists ${field}, which is not in ${at}.fields`);
+      }
+    }
+  }
+
+  for (const [name, schema] of Object.entries(dictionary.schemas)) {
+    const at = `schemas.${name}`;
+    if (!isObject(schema)) {
+      errors.push(`${at} must be an object`);
+      continue;
+    }
+    errors.push(...unknownProperties(at, schema, ['description', 'fields']));
+    if (typeof schema.description !== 'string') errors.push(`${at}.description must be a string`);
+    errors.push(...fieldList(`${at}.fields`, schema.fields, true));
+    if (Array.isArray(schema.fields) && schema.fields.length === 0) errors.push(`${at}.fields must name at least one field`);
+  }
+
+  const steps = (at: string, value: unknown): string[] => {
+    if (!Array.isArray(value)) return [`${at} must be a list of normalization steps`];
+    return value
+      .filter(step => !isTextNormalization(step))
+      .map(step => `${at} has unknown step ${JSON.stringify(step)}`);
+  };
+  errors.push(...steps('normalization.default', dictionary.normalization.default));
+  if (!isObject(dictionary.normalization.fields)) {
+    errors.push('normalization.fields must be an object');
+  } else {
+    for (const [field, list] of Object.entries(dictionary.normalization.fields)) {
+      if (!fieldNames.includes(field)) errors.push(`normalization.fields names unknown field "${field}"`);
+      errors.push(...steps(`normalization.fields.${field}`, list));
+    }
+  }
+
+  return errors;
+}
+
+function unknownProperties(at: string, value: object, known: string[]): string[] {
+  return Object.keys(value)
+    .filter(key => !known.includes(key))
+    .map(key => `${at} has unknown property "${key}" (expected ${known.join(', ')})`);
+}
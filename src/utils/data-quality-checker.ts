@@ -0,0 +1,311 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DataDictionary, StudentRecord, ValidationProfile } from './csv-data-handler';
+import { parseGrade } from './grade-level';
+import { StudentValidator, ValidationRule } from './student-validator';
+import { ageOnCountingDate, currentEducationYear } from './thai-date';
+import { isThaiDate } from './value-coercion';
+
+export type QualityCheck =
+  | 'duplicateCid'
+  | 'multipleRooms'
+  | 'duplicateStudentId'
+  | 'weightOutlier'
+  | 'heightOutlier'
+  | 'missingRequired'
+  | 'notAllowed'
+  | 'invalidValue';
+
+export interface QualityIssue {
+  check: QualityCheck;
+  /** 1-based positions of the records involved, in file order. */
+  records: number[];
+  studentId: string;
+  studentCid: string;
+  name: string;
+  field?: keyof StudentRecord;
+  value?: string;
+  message: string;
+  messageTh: string;
+}
+
+export interface DataQualityReport {
+  source: string;
+  generatedAt: string;
+  educationYear: number;
+  totalRecords: number;
+  counts: Record<QualityCheck, number>;
+  issues: QualityIssue[];
+}
+
+export interface DataQualityOptions {
+  /** File name shown in the report. */
+  source?: string;
+  /** B.E. education year for ages computed from birth dates. Defaults to EDUCATION_YEAR, then the current one. */
+  educationYear?: string | number;
+  /** Fields present in the file. Missing-value and allowed-value checks are limited to these. */
+  fields?: (keyof StudentRecord)[];
+}
+
+type Sex = 'male' | 'female';
+
+interface GrowthReference {
+  sexes: { [gender: string]: Sex };
+  ranges: { [sex in Sex]: { [age: string]: { height: [number, number]; weight: [number, number] } } };
+}
+
+const CHECK_TITLES: Record<QualityCheck, string> = {
+  duplicateCid: 'Duplicate national IDs (เลขประจำตัวประชาชนซ้ำ)',
+  multipleRooms: 'Same student in more than one room (นักเรียนคนเดียวอยู่หลายห้อง)',
+  duplicateStudentId: 'Duplicate student IDs within a school (เลขประจำตัวนักเรียนซ้ำในโรงเรียนเดียวกัน)',
+  weightOutlier: 'Unlikely weight for age and sex (น้ำหนักผิดปกติเมื่อเทียบกับอายุและเพศ)',
+  heightOutlier: 'Unlikely height for age and sex (ส่วนสูงผิดปกติเมื่อเทียบกับอายุและเพศ)',
+  missingRequired: 'Missing required values (ข้อมูลที่จำเป็นไม่ครบ)',
+  notAllowed: 'Values outside the allowed list (ค่าที่ไม่อยู่ในรายการที่กำหนด)',
+  invalidValue: 'Invalid values (ข้อมูลไม่ถูกต้อง)'
+};
+
+const SEX_NAMES_TH: Record<Sex, string> = { male: 'ชาย', female: 'หญิง' };
+
+/**
+ * Checks a whole student list before upload: duplicates across records, weight and
+ * height outliers, and the per-record dictionary rules, so the source sheet can be
+ * fixed before anything is sent to the portal.
+ */
+export class DataQualityChecker {
+  private validator: StudentValidator;
+  private growthReference: GrowthReference;
+
+  constructor(private dictionary: DataDictionary) {
+    this.validator = new StudentValidator(dictionary);
+    this.growthReference = this.readGrowthReference();
+  }
+
+  private readGrowthReference(): GrowthReference {
+    try {
+      const referencePath = path.join(__dirname, '../config/growth-reference.json');
+      return JSON.parse(fs.readFileSync(referencePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to load growth reference: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  public check(students: StudentRecord[], options: DataQualityOptions = {}): DataQualityReport {
+    const educationYear = Number(options.educationYear || process.env.EDUCATION_YEAR || currentEducationYear());
+    const issues: QualityIssue[] = [
+      ...this.checkDuplicateCids(students),
+      ...this.checkDuplicateStudentIds(students),
+      ...this.checkGrowthOutliers(students, educationYear),
+      ...this.checkFieldRules(students, educationYear, options.fields)
+    ];
+
+    const counts = Object.fromEntries(
+      (Object.keys(CHECK_TITLES) as QualityCheck[]).map(check => [check, 0])
+    ) as Record<QualityCheck, number>;
+    for (const issue of issues) {
+      counts[issue.check]++;
+    }
+
+    return {
+      source: options.source || '',
+      generatedAt: new Date().toISOString(),
+      educationYear,
+      totalRecords: students.length,
+      counts,
+      issues
+    };
+  }
+
+  /** One issue per national ID used more than once; listed under multipleRooms when the rooms differ. */
+  private checkDuplicateCids(students: StudentRecord[]): QualityIssue[] {
+    const issues: QualityIssue[] = [];
+    for (const group of this.groupBy(students, student => student.studentCid)) {
+      const rooms = [...new Set(group.map(index => this.roomLabel(students[index])))];
+      const first = students[group[0]];
+      if (rooms.length > 1) {
+        issues.push(this.issue('multipleRooms', first, group, {
+          field: 'room',
+          value: rooms.join(', '),
+          message: `National ID ${first.studentCid} appears in ${rooms.join(', ')}`,
+          messageTh: `เลขประจำตัวประชาชน ${first.studentCid} อยู่ในชั้น/ห้อง ${rooms.join(', ')}`
+        }));
+      } else {
+        issues.push(this.issue('duplicateCid', first, group, {
+          field: 'studentCid',
+          value: first.studentCid,
+          message: `National ID ${first.studentCid} appears ${group.length} times`,
+          messageTh: `เลขประจำตัวประชาชน ${first.studentCid} ซ้ำ ${group.length} รายการ`
+        }));
+      }
+    }
+    return issues;
+  }
+
+  /** Student IDs shared within one school, unless the records are all the same person (already reported by national ID). */
+  private checkDuplicateStudentIds(students: StudentRecord[]): QualityIssue[] {
+    const issues: QualityIssue[] = [];
+    const groups = this.groupBy(students, student =>
+      student.studentId.trim() === '' ? '' : `${student.schoolCode}|${student.studentId}`
+    );
+    for (const group of groups) {
+      const cids = new Set(group.map(index => students[index].studentCid));
+      if (cids.size === 1 && !cids.has('')) continue;
+
+      const first = students[group[0]];
+      issues.push(this.issue('duplicateStudentId', first, group, {
+        field: 'studentId',
+        value: first.studentId,
+        message: `Student ID ${first.studentId} is used by ${group.length} records in school ${first.schoolCode}`,
+        messageTh: `เลขประจำตัวนักเรียน ${first.studentId} ซ้ำ ${group.length} รายการในโรงเรียน ${first.schoolCode}`
+      }));
+    }
+    return issues;
+  }
+
+  private checkGrowthOutliers(students: StudentRecord[], educationYear: number): QualityIssue[] {
+    const issues: QualityIssue[] = [];
+    students.forEach((student, index) => {
+      const sex = this.growthReference.sexes[student.gender.trim()];
+      const age = typeof student.age === 'number'
+        ? student.age
+        : isThaiDate(student.birthDate) ? ageOnCountingDate(student.birthDate, educationYear) : null;
+      const range = sex && age !== null ? this.growthReference.ranges[sex][String(age)] : undefined;
+      if (!range) return;
+
+      const measures: { field: 'weight' | 'height'; check: QualityCheck; unit: string; unitTh: string; nameTh: string }[] = [
+        { field: 'weight', check: 'weightOutlier', unit: 'kg', unitTh: 'กก.', nameTh: 'น้ำหนัก' },
+        { field: 'height', check: 'heightOutlier', unit: 'cm', unitTh: 'ซม.', nameTh: 'ส่วนสูง' }
+      ];
+      for (const measure of measures) {
+        const value = student[measure.field];
+        const [min, max] = range[measure.field];
+        if (typeof value !== 'number' || (value >= min && value <= max)) continue;
+
+        issues.push(this.issue(measure.check, student, [index], {
+          field: measure.field,
+          value: String(value),
+          message: `${measure.field === 'weight' ? 'Weight' : 'Height'} ${value} ${measure.unit} is outside ${min}-${max} ${measure.unit} for a ${age}-year-old ${sex}`,
+          messageTh: `${measure.nameTh} ${value} ${measure.unitTh} อยู่นอกช่วง ${min}-${max} ${measure.unitTh} ของเพศ${SEX_NAMES_TH[sex]}อายุ ${age} ปี`
+        }));
+      }
+    });
+    return issues;
+  }
+
+  /** Runs the dictionary rules on every record; required and allowedValues failures get their own sections. */
+  private checkFieldRules(
+    students: StudentRecord[],
+    educationYear: number,
+    fields?: (keyof StudentRecord)[]
+  ): QualityIssue[] {
+    const profile: ValidationProfile | undefined = fields && {
+      description: 'Fields present in the file',
+      fields,
+      requiredFields: fields.filter(field => this.dictionary[field] && this.dictionary[field].required)
+    };
+    const checkByRule: Partial<Record<ValidationRule, QualityCheck>> = {
+      required: 'missingRequired',
+      allowedValues: 'notAllowed'
+    };
+
+    const issues: QualityIssue[] = [];
+    students.forEach((student, index) => {
+      const result = this.validator.validate(student, { profile, row: index + 1, educationYear });
+      for (const error of result.errors) {
+        issues.push(this.issue(checkByRule[error.rule] || 'invalidValue', student, [index], {
+          field: error.field,
+          value: error.value,
+          message: error.message,
+          messageTh: error.messageTh
+        }));
+      }
+    });
+    return issues;
+  }
+
+  /** Indexes of records sharing a non-empty key, for keys used more than once. */
+  private groupBy(students: StudentRecord[], keyOf: (student: StudentRecord) => string): number[][] {
+    const groups = new Map<string, number[]>();
+    students.forEach((student, index) => {
+      const key = keyOf(student).trim();
+      if (key === '') return;
+      groups.set(key, [...(groups.get(key) || []), index]);
+    });
+    return [...groups.values()].filter(group => group.length > 1);
+  }
+
+  /** Grade and room with the grade normalized, so "ม. 1" and "ม.1" are the same room. */
+  private roomLabel(student: StudentRecord): string {
+    const grade = parseGrade(student.grade)?.label || student.grade.trim();
+    return `${grade}/${student.room.trim()}`;
+  }
+
+  private issue(
+    check: QualityCheck,
+    student: StudentRecord,
+    indexes: number[],
+    details: Pick<QualityIssue, 'field' | 'value' | 'message' | 'messageTh'>
+  ): QualityIssue {
+    return {
+      check,
+      records: indexes.map(index => index + 1),
+      studentId: student.studentId,
+      studentCid: student.studentCid,
+      name: `${student.firstName} ${student.lastName}`.trim(),
+      ...details
+    };
+  }
+}
+
+function escapeMarkdownCell(value: string | undefined): string {
+  return (value || '').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/** Renders the report as Markdown for teachers: a summary table, then one section per check with issues. */
+export function formatDataQualityMarkdown(report: DataQualityReport): string {
+  const lines: string[] = [
+    '# Student Data Quality Report (รายงานคุณภาพข้อมูลนักเรียน)',
+    '',
+    `- Source: ${report.source || '-'}`,
+    `- Generated: ${report.generatedAt}`,
+    `- Education year: ${report.educationYear}`,
+    `- Records checked: ${report.totalRecords}`,
+    `- Issues found: ${report.issues.length}`,
+    '',
+    '## Summary',
+    '',
+    '| Check | Issues |',
+    '| --- | ---: |',
+    ...(Object.keys(CHECK_TITLES) as QualityCheck[]).map(check => `| ${CHECK_TITLES[check]} | ${report.counts[check]} |`)
+  ];
+
+  for (const check of Object.keys(CHECK_TITLES) as QualityCheck[]) {
+    const issues = report.issues.filter(issue => issue.check === check);
+    if (issues.length === 0) continue;
+
+    lines.push('', `## ${CHECK_TITLES[check]}`, '', '| Records | Student ID | National ID | Name | Field | Value | Problem |', '| --- | --- | --- | --- | --- | --- | --- |');
+    for (const issue of issues) {
+      const cells = [
+        issue.records.join(', '),
+        issue.studentId,
+        issue.studentCid,
+        issue.name,
+        issue.field,
+        issue.value,
+        issue.messageTh
+      ];
+      lines.push(`| ${cells.map(escapeMarkdownCell).join(' | ')} |`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/** Writes `<basePath>.md` and `<basePath>.json` and returns both paths. */
+export function writeDataQualityReport(report: DataQualityReport, basePath: string): { markdownPath: string; jsonPath: string } {
+  const markdownPath = `${basePath}.md`;
+  const jsonPath = `${basePath}.json`;
+  fs.writeFileSync(markdownPath, formatDataQualityMarkdown(report), 'utf-8');
+  fs.writeFileSync(jsonPath, JSON.stringify(report, null, 2), 'utf-8');
+  return { markdownPath, jsonPath };
+}
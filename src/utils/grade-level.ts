@@ -0,0 +1,73 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { foldThaiDigits } from './thai-text';
+
+export interface GradeStage {
+  /** Short Thai prefix used in canonical grade labels, e.g. "ม". */
+  stage: string;
+  thaiName: string;
+  englishName: string;
+  /** Prefixes that name this stage, compared without spaces or dots, in lower case. */
+  aliases: string[];
+  /** Typical age on the counting date in the first year of the stage. */
+  firstYearAge: number;
+  /** levelDtlCode per year of the stage, first year first. */
+  codes: string[];
+}
+
+export interface GradeLevel {
+  stage: GradeStage;
+  /** Year within the stage, starting at 1. */
+  year: number;
+  /** Canonical label such as "ม.2". */
+  label: string;
+  levelDtlCode: string;
+}
+
+let gradeStages: GradeStage[] | undefined;
+
+function getGradeStages(): GradeStage[] {
+  if (!gradeStages) {
+    try {
+      const tablePath = path.join(__dirname, '../config/grade-levels.json');
+      gradeStages = JSON.parse(fs.readFileSync(tablePath, 'utf-8')).stages as GradeStage[];
+    } catch (error) {
+      throw new Error(`Failed to load grade levels: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return gradeStages;
+}
+
+/**
+ * Reads the grade spellings found in school sheets: "ม.2", "ม 2", "ม2", "M.2",
+ * "มัธยมศึกษาปีที่ 2", "ป.๖", "อนุบาล 1", "ปวช.1". Returns null for anything else,
+ * including years past the end of the stage ("ป.7", "อ.4").
+ */
+export function parseGrade(grade: string): GradeLevel | null {
+  const compact = foldThaiDigits(grade || '').toLowerCase().replace(/[\s.]/g, '');
+  const match = /^(.+?)([0-9]{1,2})$/.exec(compact);
+  if (!match) return null;
+
+  const stage = getGradeStages().find(candidate => candidate.aliases.includes(match[1]));
+  const year = parseInt(match[2], 10);
+  if (!stage || year < 1 || year > stage.codes.length) return null;
+
+  return { stage, year, label: `${stage.stage}.${year}`, levelDtlCode: stage.codes[year - 1] };
+}
+
+/** The DMC levelDtlCode for a grade, or null when the grade is not recognised. */
+export function resolveLevelDtlCode(grade: string): string | null {
+  const level = parseGrade(grade);
+  return level ? level.levelDtlCode : null;
+}
+
+/** Typical age on the counting date for a grade, or null when the grade is not recognised. */
+export function expectedAgeForGrade(grade: string): number | null {
+  const level = parseGrade(grade);
+  return level ? level.stage.firstYearAge + level.year - 1 : null;
+}
+
+/** Canonical grade labels, e.g. for listing what a sheet may contain. */
+export function getGradeLabels(): string[] {
+  return getGradeStages().flatMap(stage => stage.codes.map((_, index) => `${stage.stage}.${index + 1}`));
+}
@@ -0,0 +1,359 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CsvDataHandler, StudentLoadResult, StudentRecord, StudentStream } from './csv-data-handler';
+import { CsvRow, parseCsv, parseCsvStream } from './csv-parser';
+import { isObject } from './data-dictionary-loader';
+import { stringifyCsv } from './csv-writer';
+import { LoadXlsxOptions, XlsxDataHandler } from './xlsx-data-handler';
+
+export const IMPORT_MAPPINGS_DIR = path.join(__dirname, '../config/import-mappings');
+
+/** One or more source headers; the first one the file has is used. */
+type SourceColumn = string | string[];
+
+export interface SplitRule {
+  from: SourceColumn;
+  into: (keyof StudentRecord)[];
+  /**
+   * Regular expression whose capture groups fill `into` in order. Without one the value is
+   * split at `separator` (default: any whitespace) and the last field takes the remainder.
+   */
+  pattern?: string;
+  separator?: string;
+}
+
+export interface ConcatRule {
+  from: SourceColumn[];
+  into: keyof StudentRecord;
+  /** Placed between the non-empty source values (default one space). */
+  separator?: string;
+}
+
+/** How another system's export maps onto the data dictionary. */
+export interface ImportMapping {
+  description: string;
+  /** Field → source header, renamed as is. */
+  columns: Partial<Record<keyof StudentRecord, SourceColumn>>;
+  split: SplitRule[];
+  concat: ConcatRule[];
+  /** Field → source value → dictionary value, e.g. `{ "gender": { "M": "ช", "F": "ญ" } }`. Matched ignoring case and outer spaces. */
+  values: Partial<Record<keyof StudentRecord, { [sourceValue: string]: string }>>;
+  /** Values for fields the export leaves empty or does not have, e.g. the school code. */
+  defaults: Partial<Record<keyof StudentRecord, string>>;
+}
+
+const SECTIONS = ['description', 'columns', 'split', 'concat', 'values', 'defaults'];
+
+function normalizeHeader(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Reads a mapping file and checks it against the dictionary's fields. Throws with every
+ * problem found, one per line.
+ */
+export function readImportMappingFile(filePath: string, fieldNames: string[]): ImportMapping {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Cannot read import mapping ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!isObject(raw)) {
+    throw new Error(`Import mapping ${filePath} must contain a JSON object`);
+  }
+
+  // Typed as what the file should hold; every section is checked below before it is used
+  const mapping = {
+    description: raw.description,
+    columns: raw.columns || {},
+    split: raw.split || [],
+    concat: raw.concat || [],
+    values: raw.values || {},
+    defaults: raw.defaults || {}
+  } as ImportMapping;
+  const errors = Object.keys(raw).filter(key => !SECTIONS.includes(key)).map(key => `unknown section "${key}"`);
+  if (typeof mapping.description !== 'string') errors.push('description must be a string');
+  for (const section of ['columns', 'values', 'defaults'] as const) {
+    if (!isObject(mapping[section])) errors.push(`${section} must be an object`);
+  }
+  for (const section of ['split', 'concat'] as const) {
+    if (!Array.isArray(mapping[section])) errors.push(`${section} must be a list of rules`);
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid import mapping ${filePath}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  const isSource = (value: unknown) => typeof value === 'string'
+    || (Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string'));
+  const produced = new Map<string, string>();
+  const produce = (at: string, field: unknown) => {
+    if (typeof field !== 'string' || !fieldNames.includes(field)) {
+      errors.push(`${at} names unknown field ${JSON.stringify(field)}`);
+    } else if (produced.has(field)) {
+      errors.push(`${at}: ${field} is already filled by ${produced.get(field)}`);
+    } else {
+      produced.set(field, at);
+    }
+  };
+
+  for (const [field, source] of Object.entries(mapping.columns)) {
+    produce(`columns.${field}`, field);
+    if (!isSource(source)) errors.push(`columns.${field} must be a header or a list of headers`);
+  }
+  mapping.split.forEach((rule, index) => {
+    const at = `split[${index}]`;
+    if (!isObject(rule)) {
+      errors.push(`${at} must be an object`);
+      return;
+    }
+    if (!isSource(rule.from)) errors.push(`${at}.from must be a header or a list of headers`);
+    if (!Array.isArray(rule.into) || rule.into.length < 2) {
+      errors.push(`${at}.into must list at least two fields`);
+    } else {
+      rule.into.forEach(field => produce(`${at}.into`, field));
+    }
+    if (rule.pattern !== undefined) {
+      try {
+        const groups = new RegExp(`${rule.pattern}|`).exec('')!.length - 1;
+        if (Array.isArray(rule.into) && groups !== rule.into.length) {
+          errors.push(`${at}.pattern has ${groups} capture groups for ${rule.into.length} fields`);
+        }
+      } catch (error) {
+        errors.push(`${at}.pattern is not a valid regular expression: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    if (rule.separator !== undefined && (typeof rule.separator !== 'string' || rule.separator === '')) {
+      errors.push(`${at}.separator must be a non-empty string`);
+    }
+  });
+  mapping.concat.forEach((rule, index) => {
+    const at = `concat[${index}]`;
+    if (!isObject(rule)) {
+      errors.push(`${at} must be an object`);
+      return;
+    }
+    if (!Array.isArray(rule.from) || rule.from.length < 2 || !rule.from.every(isSource)) {
+      errors.push(`${at}.from must list at least two headers`);
+    }
+    produce(`${at}.into`, rule.into);
+    if (rule.separator !== undefined && typeof rule.separator !== 'string') errors.push(`${at}.separator must be a string`);
+  });
+
+  for (const [field, table] of Object.entries(mapping.values)) {
+    if (!fieldNames.includes(field)) errors.push(`values names unknown field "${field}"`);
+    if (!isObject(table) || Object.values(table).some(value => typeof value !== 'string')) {
+      errors.push(`values.${field} must map source values to strings`);
+    }
+  }
+  for (const [field, value] of Object.entries(mapping.defaults)) {
+    if (!fieldNames.includes(field)) errors.push(`defaults names unknown field "${field}"`);
+    if (typeof value !== 'string') errors.push(`defaults.${field} must be a string`);
+  }
+  if (produced.size === 0 && Object.keys(mapping.defaults).length === 0) {
+    errors.push('the mapping fills no fields');
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid import mapping ${filePath}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+  return mapping;
+}
+
+/**
+ * Reads exports of other school management systems through a mapping file. Each row is
+ * rewritten into dictionary fields (renamed, split, concatenated and translated columns)
+ * and then loaded by CsvDataHandler like any student file, so coercion, validation and
+ * the load report work as usual, with the source file's line numbers.
+ */
+export class ImportAdapter {
+  private static instances = new Map<string, ImportAdapter>();
+  private mapping: ImportMapping;
+  private csvHandler: CsvDataHandler;
+  private mappingPath: string;
+
+  private constructor(mappingPath: string, csvHandler: CsvDataHandler) {
+    this.mappingPath = mappingPath;
+    this.csvHandler = csvHandler;
+    try {
+      this.mapping = readImportMappingFile(mappingPath, Object.keys(csvHandler.getDataDictionary()));
+    } catch (error) {
+      throw new Error(`Failed to load import mapping: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * One adapter per mapping and dictionary. `mapping` is the name of a file in
+   * src/config/import-mappings (without .json) or a path to one.
+   */
+  public static getInstance(mapping: string, csvHandler: CsvDataHandler = CsvDataHandler.getInstance()): ImportAdapter {
+    const bundledPath = path.join(IMPORT_MAPPINGS_DIR, `${mapping}.json`);
+    const mappingPath = path.resolve(fs.existsSync(bundledPath) ? bundledPath : mapping);
+    const key = `${mappingPath}|${csvHandler.getDictionaryPath()}`;
+    let instance = ImportAdapter.instances.get(key);
+    if (!instance) {
+      instance = new ImportAdapter(mappingPath, csvHandler);
+      ImportAdapter.instances.set(key, instance);
+    }
+    return instance;
+  }
+
+  /** Names of the bundled mappings. */
+  public static getMappingNames(): string[] {
+    if (!fs.existsSync(IMPORT_MAPPINGS_DIR)) return [];
+    return fs.readdirSync(IMPORT_MAPPINGS_DIR)
+      .filter(fileName => fileName.endsWith('.json'))
+      .map(fileName => path.basename(fileName, '.json'));
+  }
+
+  public getDescription(): string {
+    return this.mapping.description;
+  }
+
+  public getMappingPath(): string {
+    return this.mappingPath;
+  }
+
+  public async loadStudentData(filePath: string, options: LoadXlsxOptions = {}): Promise<StudentRecord[]> {
+    const { records, report } = await this.loadStudentDataWithReport(filePath, options);
+    this.csvHandler.logLoadReport(report);
+    return records;
+  }
+
+  public async loadStudentDataWithReport(filePath: string, options: LoadXlsxOptions = {}): Promise<StudentLoadResult> {
+    let result: StudentLoadResult;
+    try {
+      const rows = this.isXlsx(filePath)
+        ? await XlsxDataHandler.getInstance(this.csvHandler.getDictionaryPath()).readRows(filePath, options.sheet)
+        : parseCsv(fs.readFileSync(filePath, 'utf-8'), options);
+      result = this.csvHandler.loadStudentRows(this.transformRows(rows), filePath, options);
+    } catch (error) {
+      throw new Error(`Error importing ${path.basename(filePath)} with mapping ${path.basename(this.mappingPath, '.json')}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    this.csvHandler.enforceStrictMode(result.report, options);
+    return result;
+  }
+
+  public openStudentStream(filePath: string, options: LoadXlsxOptions = {}): StudentStream {
+    const report = this.csvHandler.createLoadReport(filePath);
+    const rows: AsyncIterable<CsvRow> = this.isXlsx(filePath)
+      ? this.readWorkbookRows(filePath, options.sheet)
+      : parseCsvStream(fs.createReadStream(filePath, { encoding: 'utf-8' }), options);
+    const fileType = this.isXlsx(filePath) ? 'Excel' : 'CSV';
+    return { records: this.csvHandler.streamStudentRows(this.transformRowStream(rows), report, options, fileType), report };
+  }
+
+  /** Rewrites parsed rows (header first) into dictionary fields, keeping each row's line number. */
+  public transformRows(rows: CsvRow[]): CsvRow[] {
+    const [headerRow, ...dataRows] = rows;
+    if (!headerRow) {
+      return [];
+    }
+    const transform = this.createRowTransformer(headerRow);
+    return [transform.header, ...dataRows.map(transform.row)];
+  }
+
+  public async *transformRowStream(rows: AsyncIterable<CsvRow>): AsyncGenerator<CsvRow> {
+    let transform: ReturnType<ImportAdapter['createRowTransformer']> | undefined;
+    for await (const row of rows) {
+      if (!transform) {
+        transform = this.createRowTransformer(row);
+        yield transform.header;
+      } else {
+        yield transform.row(row);
+      }
+    }
+  }
+
+  private isXlsx(filePath: string): boolean {
+    return path.extname(filePath).toLowerCase() === '.xlsx';
+  }
+
+  private async *readWorkbookRows(filePath: string, sheet?: string | number): AsyncGenerator<CsvRow> {
+    yield* await XlsxDataHandler.getInstance(this.csvHandler.getDictionaryPath()).readRows(filePath, sheet);
+  }
+
+  /** Resolves the mapping's source headers against the file's header row; throws for any that is missing. */
+  private createRowTransformer(headerRow: CsvRow): { header: CsvRow; row: (row: CsvRow) => CsvRow } {
+    const headerIndex = new Map<string, number>();
+    headerRow.fields.forEach((header, index) => {
+      const name = normalizeHeader(header);
+      if (name && !headerIndex.has(name)) headerIndex.set(name, index);
+    });
+
+    const missing: string[] = [];
+    const column = (source: SourceColumn): number => {
+      const candidates = ([] as string[]).concat(source);
+      const index = candidates.map(name => headerIndex.get(normalizeHeader(name))).find(candidate => candidate !== undefined);
+      if (index === undefined) missing.push(candidates.map(name => `"${name}"`).join(' or '));
+      return index === undefined ? -1 : index;
+    };
+
+    type Extract = (cells: string[]) => Partial<Record<keyof StudentRecord, string>>;
+    const extractors: Extract[] = [];
+    for (const [field, source] of Object.entries(this.mapping.columns)) {
+      const index = column(source!);
+      extractors.push(cells => ({ [field]: cells[index] || '' }));
+    }
+    for (const rule of this.mapping.split) {
+      const index = column(rule.from);
+      const pattern = rule.pattern !== undefined ? new RegExp(rule.pattern) : undefined;
+      extractors.push(cells => {
+        const value = (cells[index] || '').trim();
+        let parts: string[];
+        if (pattern) {
+          const match = pattern.exec(value);
+          parts = match ? match.slice(1).map(part => part || '') : [];
+        } else {
+          const pieces = value === '' ? [] : rule.separator !== undefined ? value.split(rule.separator) : value.split(/\s+/);
+          const joiner = rule.separator !== undefined ? rule.separator : ' ';
+          parts = [...pieces.slice(0, rule.into.length - 1), pieces.slice(rule.into.length - 1).join(joiner)];
+        }
+        return Object.fromEntries(rule.into.map((field, position) => [field, (parts[position] || '').trim()]));
+      });
+    }
+    for (const rule of this.mapping.concat) {
+      const indexes = rule.from.map(column);
+      const separator = rule.separator !== undefined ? rule.separator : ' ';
+      extractors.push(cells => ({
+        [rule.into]: indexes.map(index => (cells[index] || '').trim()).filter(value => value !== '').join(separator)
+      }));
+    }
+
+    if (missing.length > 0) {
+      throw new Error(`Columns named by the import mapping are not in the file: ${missing.join(', ')} (file has: ${headerRow.fields.join(', ')})`);
+    }
+
+    const translations = new Map(Object.entries(this.mapping.values).map(([field, table]) => [
+      field,
+      new Map(Object.entries(table!).map(([source, value]) => [source.trim().toLowerCase(), value]))
+    ]));
+    const fields = [...new Set([
+      ...extractors.flatMap(extract => Object.keys(extract([]))),
+      ...Object.keys(this.mapping.defaults)
+    ])] as (keyof StudentRecord)[];
+
+    const toRow = (lineNumber: number, cells: string[], raw?: string): CsvRow => ({ lineNumber, fields: cells, raw: raw || stringifyCsv([cells]) });
+    return {
+      header: toRow(headerRow.lineNumber, fields),
+      row: source => {
+        if (source.error) {
+          return source;
+        }
+        if (source.fields.every(cell => cell.trim() === '')) {
+          return toRow(source.lineNumber, fields.map(() => ''), source.raw);
+        }
+        const values: Partial<Record<keyof StudentRecord, string>> = Object.assign({}, ...extractors.map(extract => extract(source.fields)));
+        const cells = fields.map(field => {
+          const value = values[field] || '';
+          const translated = translations.get(field)?.get(value.trim().toLowerCase());
+          const result = translated !== undefined ? translated : value;
+          return result.trim() === '' && this.mapping.defaults[field] !== undefined ? this.mapping.defaults[field]! : result;
+        });
+        // Load issues quote the source row, so teachers can find it in their own export
+        return toRow(source.lineNumber, cells, source.raw);
+      }
+    };
+  }
+}
@@ -0,0 +1,258 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Page } from '@playwright/test';
+import { UserSelectionPage } from '../pages/login-page';
+import { PortalHome } from '../pages/portal-home';
+import { isShown } from '../pages/wait';
+import { StudentRecord } from './csv-data-handler';
+import { CsvCell } from './csv-writer';
+
+export interface SchoolSettings {
+  schoolCode: string;
+  schoolName?: string;
+  /**
+   * Value of the account option (`input[name="uid"]`) on the portal's "กรุณาเลือก User"
+   * page. Needed to switch to this school when a run covers more than one school.
+   */
+  uid?: string;
+  /** B.E. education year for this school's URLs. Defaults to EDUCATION_YEAR. */
+  educationYear: string;
+}
+
+/** Anything with a school code can be batched: student records or rows derived from them. */
+export type SchoolScoped = Pick<StudentRecord, 'schoolCode'>;
+
+export interface SchoolRun {
+  school: SchoolSettings;
+  /** Records of the school handed out so far; the school's total once the plan's items are read. */
+  records: number;
+}
+
+export interface SkippedSchool {
+  schoolCode: string;
+  records: number;
+  reason: string;
+}
+
+export interface SchoolBatchItem<T extends SchoolScoped = StudentRecord> {
+  school: SchoolSettings;
+  record: T;
+}
+
+export interface SchoolBatchPlan<T extends SchoolScoped = StudentRecord> {
+  /** Records to process with their school, in file order. Can be iterated once. */
+  items: AsyncIterable<SchoolBatchItem<T>>;
+  /** Schools processed, in the order they first appear in the file; complete once `items` is read. */
+  runs: SchoolRun[];
+  /** Records that are not processed, grouped by school, with the reason; complete once `items` is read. */
+  skipped: SkippedSchool[];
+}
+
+export interface SchoolBatchOptions<T extends SchoolScoped = SchoolScoped> {
+  /** Schools that may be processed. Defaults to the schools file (SCHOOLS_FILE, else data/schools.json). */
+  schools?: SchoolSettings[];
+  /** School for records without a school code, and the only school when there is no schools file. Defaults to SCHOOL_CODE, then 36022006. */
+  defaultSchoolCode?: string;
+  /** Defaults to EDUCATION_YEAR, then 2568. */
+  defaultEducationYear?: string;
+  /** Records the operation has nothing to do for, e.g. rows without a weight or height; they are left out silently. */
+  include?: (record: T) => boolean;
+}
+
+/** Counts for one school, or for the whole run in the rollup. */
+export interface SchoolSummary {
+  schoolCode: string;
+  schoolName: string;
+  total: number;
+  succeeded: number;
+  failed: number;
+  /** Result count per status, e.g. `{ success: 10, student_not_found: 2 }`. */
+  statuses: { [status: string]: number };
+}
+
+export interface SchoolBatchSummary {
+  schools: SchoolSummary[];
+  rollup: SchoolSummary;
+  skipped: SkippedSchool[];
+}
+
+/**
+ * Reads the schools a run may process. The file is a JSON object keyed by school code:
+ * `{ "36022006": { "schoolName": "...", "uid": "...", "educationYear": "2568" } }`.
+ * Returns an empty list when the file does not exist.
+ */
+export function loadSchoolSettings(filePath?: string): SchoolSettings[] {
+  const settingsPath = filePath || process.env.SCHOOLS_FILE || path.join(__dirname, '../../data/schools.json');
+  if (!fs.existsSync(settingsPath)) {
+    return [];
+  }
+
+  try {
+    const data = JSON.parse(fs.readFileSync(settingsPath, 'utf-8'));
+    return Object.entries(data as { [schoolCode: string]: Partial<SchoolSettings> }).map(([schoolCode, settings]) => ({
+      schoolCode,
+      schoolName: settings.schoolName,
+      uid: settings.uid !== undefined ? String(settings.uid) : undefined,
+      educationYear: settings.educationYear !== undefined ? String(settings.educationYear) : ''
+    }));
+  } catch (error) {
+    throw new Error(`Failed to load school settings: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Assigns each record to its school as the records are read, so a streamed file is never
+ * held in memory. Without a schools file only SCHOOL_CODE is processed, as before; records
+ * of other schools are listed in `skipped` instead of being dropped silently. With one,
+ * every listed school is processed. Records run in file order and the session is switched
+ * whenever the school changes, so a file sorted by school switches once per school. A
+ * school without a `uid` can only run in the session the run starts in: it is processed
+ * while it is the first school of the file, and skipped once the run has switched away.
+ */
+export function planSchoolBatch<T extends SchoolScoped>(
+  records: Iterable<T> | AsyncIterable<T>,
+  options: SchoolBatchOptions<T> = {}
+): SchoolBatchPlan<T> {
+  const schools = options.schools || loadSchoolSettings();
+  const defaultSchoolCode = options.defaultSchoolCode !== undefined ? options.defaultSchoolCode : process.env.SCHOOL_CODE || '36022006';
+  const defaultEducationYear = options.defaultEducationYear || process.env.EDUCATION_YEAR || '2568';
+
+  const runs: SchoolRun[] = [];
+  const skipped: SkippedSchool[] = [];
+  const skip = (schoolCode: string, reason: string) => {
+    const entry = skipped.find(candidate => candidate.schoolCode === schoolCode && candidate.reason === reason);
+    if (entry) {
+      entry.records++;
+    } else {
+      skipped.push({ schoolCode, records: 1, reason });
+    }
+  };
+
+  // Settings of each school code seen so far, or why it cannot be processed
+  const resolved = new Map<string, SchoolSettings | string>();
+  const resolveSchool = (schoolCode: string): SchoolSettings | string => {
+    if (schoolCode === '') {
+      return 'no school code in the file and no default school';
+    }
+    const settings = schools.length > 0
+      ? schools.find(school => school.schoolCode === schoolCode)
+      : schoolCode === defaultSchoolCode ? { schoolCode, educationYear: '' } : undefined;
+    if (!settings) {
+      return schools.length > 0 ? 'not listed in the schools file' : `not SCHOOL_CODE (${defaultSchoolCode || 'not set'})`;
+    }
+    return { ...settings, educationYear: settings.educationYear || defaultEducationYear };
+  };
+
+  async function* items(): AsyncGenerator<SchoolBatchItem<T>> {
+    const runsByCode = new Map<string, SchoolRun>();
+    let current: SchoolRun | undefined;
+    for await (const record of records) {
+      if (options.include && !options.include(record)) {
+        continue;
+      }
+      const schoolCode = record.schoolCode.trim() || defaultSchoolCode;
+      if (!resolved.has(schoolCode)) {
+        resolved.set(schoolCode, resolveSchool(schoolCode));
+      }
+      const school = resolved.get(schoolCode)!;
+      if (typeof school === 'string') {
+        skip(schoolCode, school);
+        continue;
+      }
+
+      let run = runsByCode.get(schoolCode);
+      if (current && run !== current && !school.uid) {
+        skip(schoolCode, run ? 'no portal account (uid) to switch back to' : 'no portal account (uid) to switch to');
+        continue;
+      }
+      if (!run) {
+        run = { school, records: 0 };
+        runsByCode.set(schoolCode, run);
+        runs.push(run);
+      }
+      run.records++;
+      current = run;
+      yield { school: run.school, record };
+    }
+  }
+
+  return { items: items(), runs, skipped };
+}
+
+/** Prints the schools of a plan whose items have been read, with their record counts. */
+export function logSchoolBatchPlan(plan: SchoolBatchPlan<SchoolScoped>): void {
+  for (const { school, records } of plan.runs) {
+    console.log(`🏫 ${describeSchool(school)}: ${records} records, education year ${school.educationYear}`);
+  }
+  for (const skipped of plan.skipped) {
+    console.warn(`⏭️  ${skipped.records} records of school ${skipped.schoolCode} skipped: ${skipped.reason}`);
+  }
+}
+
+function describeSchool(school: { schoolCode: string; schoolName?: string }): string {
+  return school.schoolName ? `${school.schoolCode} ${school.schoolName}` : school.schoolCode;
+}
+
+/**
+ * Switches the portal session to the school's account through the user selection page.
+ * Does nothing for a school without a `uid`, which runs in the current session.
+ */
+export async function switchSchoolSession(page: Page, dmcPortalUrl: string, school: SchoolSettings): Promise<void> {
+  if (!school.uid) {
+    return;
+  }
+
+  const userSelection = new UserSelectionPage(page, dmcPortalUrl);
+  await userSelection.goto();
+  if (!(await isShown(userSelection.account(school.uid), 5000))) {
+    throw new Error(`Account ${school.uid} for school ${school.schoolCode} is not on the user selection page`);
+  }
+  await userSelection.enterAs(school.uid);
+
+  if (!(await new PortalHome(page, dmcPortalUrl).isLoggedIn())) {
+    throw new Error(`Could not switch to school ${school.schoolCode}`);
+  }
+  console.log(`🔁 Switched to school ${describeSchool(school)}`);
+}
+
+/** Per-school counts and a rollup for the whole run, once the plan's items have been read. */
+export function summarizeBySchool<T extends { schoolCode: string; status: string }>(
+  results: T[],
+  plan: SchoolBatchPlan<SchoolScoped>,
+  isSuccess: (result: T) => boolean
+): SchoolBatchSummary {
+  const summarize = (schoolCode: string, schoolName: string, rows: T[]): SchoolSummary => {
+    const statuses: { [status: string]: number } = {};
+    for (const row of rows) {
+      statuses[row.status] = (statuses[row.status] || 0) + 1;
+    }
+    const succeeded = rows.filter(isSuccess).length;
+    return { schoolCode, schoolName, total: rows.length, succeeded, failed: rows.length - succeeded, statuses };
+  };
+
+  const schools = plan.runs.map(({ school }) =>
+    summarize(school.schoolCode, school.schoolName || '', results.filter(result => result.schoolCode === school.schoolCode))
+  );
+  return { schools, rollup: summarize('ALL', `${schools.length} schools`, results), skipped: plan.skipped };
+}
+
+export function logSchoolSummaries(summary: SchoolBatchSummary): void {
+  console.log('\n🏫 Per-school summary:');
+  for (const school of [...summary.schools, summary.rollup]) {
+    const statuses = Object.entries(school.statuses).map(([status, count]) => `${status}: ${count}`).join(', ');
+    console.log(`   ${describeSchool(school)}: ${school.succeeded}/${school.total} succeeded${statuses ? ` (${statuses})` : ''}`);
+  }
+  for (const skipped of summary.skipped) {
+    console.log(`   ${skipped.schoolCode}: ${skipped.records} records skipped (${skipped.reason})`);
+  }
+}
+
+/** Rows for the Summary sheet of a result workbook: one line per school, then the rollup and skipped schools. */
+export function schoolSummaryRows(summary: SchoolBatchSummary): CsvCell[][] {
+  return [
+    [],
+    ['School', 'Name', 'Total', 'Succeeded', 'Failed'],
+    ...[...summary.schools, summary.rollup].map(school => [school.schoolCode, school.schoolName, school.total, school.succeeded, school.failed]),
+    ...summary.skipped.map(skipped => [skipped.schoolCode, `Skipped: ${skipped.reason}`, skipped.records, 0, 0])
+  ];
+}
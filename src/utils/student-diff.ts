@@ -0,0 +1,204 @@
+import * as fs from 'fs';
+import { CsvDataHandler, StudentRecord } from './csv-data-handler';
+import { writeCsvFile } from './csv-writer';
+import { formatValue } from './value-coercion';
+
+export type StudentChangeKind = 'added' | 'removed' | 'modified';
+
+export interface FieldChange {
+  field: keyof StudentRecord;
+  /** Values as written in student files: dates as dd/mm/yyyy B.E., absent values empty. */
+  before: string;
+  after: string;
+}
+
+export interface StudentChange {
+  kind: StudentChangeKind;
+  /** How the two records were paired: national ID, or school code + student ID when a record has no national ID. */
+  matchedBy: 'studentCid' | 'studentId' | null;
+  studentCid: string;
+  studentId: string;
+  schoolCode: string;
+  name: string;
+  /** null for added records. */
+  before: StudentRecord | null;
+  /** null for removed records. */
+  after: StudentRecord | null;
+  /** Changed fields of a modified record; empty for added and removed ones. */
+  changes: FieldChange[];
+}
+
+export interface StudentDiff {
+  previousSource: string;
+  currentSource: string;
+  generatedAt: string;
+  /** Fields that were compared. */
+  fields: (keyof StudentRecord)[];
+  counts: Record<StudentChangeKind | 'unchanged', number>;
+  /** Modified and added records in current-file order, then removed ones in previous-file order. */
+  changes: StudentChange[];
+}
+
+export interface StudentDiffOptions {
+  /** Fields to compare. Defaults to every field of the records. */
+  fields?: (keyof StudentRecord)[];
+  previousSource?: string;
+  currentSource?: string;
+}
+
+/**
+ * Compares two snapshots of a student list. Records are paired by national ID; a record
+ * without one is paired by school code and student ID instead. When a key appears more
+ * than once, records are paired in file order.
+ */
+export function diffStudents(
+  previous: StudentRecord[],
+  current: StudentRecord[],
+  options: StudentDiffOptions = {}
+): StudentDiff {
+  const fields = options.fields
+    || (Object.keys(current[0] || previous[0] || {}) as (keyof StudentRecord)[]);
+
+  const byCid = groupIndexes(previous, record => record.studentCid.trim());
+  const byStudentId = groupIndexes(previous, studentIdKeyOf);
+  const paired = new Map<number, { index: number; matchedBy: 'studentCid' | 'studentId' }>();
+  const taken = new Set<number>();
+  const take = (currentIndex: number, candidates: number[], matchedBy: 'studentCid' | 'studentId') => {
+    const index = candidates.find(candidate => !taken.has(candidate));
+    if (index === undefined) return;
+    taken.add(index);
+    paired.set(currentIndex, { index, matchedBy });
+  };
+
+  // National IDs first, so a record paired by student ID cannot take one that a later record matches by ID card
+  current.forEach((record, currentIndex) => {
+    const cid = record.studentCid.trim();
+    if (cid) take(currentIndex, byCid.get(cid) || [], 'studentCid');
+  });
+  current.forEach((record, currentIndex) => {
+    if (paired.has(currentIndex)) return;
+    const cid = record.studentCid.trim();
+    // Records that both have a national ID but differ in it are different students
+    const candidates = (byStudentId.get(studentIdKeyOf(record)) || [])
+      .filter(candidate => !cid || previous[candidate].studentCid.trim() === '');
+    take(currentIndex, candidates, 'studentId');
+  });
+
+  const changes: StudentChange[] = [];
+  let unchanged = 0;
+  current.forEach((record, currentIndex) => {
+    const pair = paired.get(currentIndex);
+    if (!pair) {
+      changes.push(change('added', null, record, null, []));
+      return;
+    }
+    const fieldChanges = compareRecords(previous[pair.index], record, fields);
+    if (fieldChanges.length === 0) {
+      unchanged++;
+    } else {
+      changes.push(change('modified', previous[pair.index], record, pair.matchedBy, fieldChanges));
+    }
+  });
+
+  previous.forEach((record, index) => {
+    if (!taken.has(index)) changes.push(change('removed', record, null, null, []));
+  });
+
+  const count = (kind: StudentChangeKind) => changes.filter(item => item.kind === kind).length;
+  return {
+    previousSource: options.previousSource || '',
+    currentSource: options.currentSource || '',
+    generatedAt: new Date().toISOString(),
+    fields,
+    counts: { added: count('added'), removed: count('removed'), modified: count('modified'), unchanged },
+    changes
+  };
+}
+
+function groupIndexes(records: StudentRecord[], keyOf: (record: StudentRecord) => string): Map<string, number[]> {
+  const groups = new Map<string, number[]>();
+  records.forEach((record, index) => {
+    const key = keyOf(record);
+    if (!key) return;
+    const group = groups.get(key);
+    if (group) {
+      group.push(index);
+    } else {
+      groups.set(key, [index]);
+    }
+  });
+  return groups;
+}
+
+function studentIdKeyOf(record: StudentRecord): string {
+  const studentId = record.studentId.trim();
+  return studentId ? `${record.schoolCode.trim()}|${studentId}` : '';
+}
+
+function compareRecords(before: StudentRecord, after: StudentRecord, fields: (keyof StudentRecord)[]): FieldChange[] {
+  return fields
+    .map(field => ({ field, before: formatValue(before[field]), after: formatValue(after[field]) }))
+    .filter(item => item.before !== item.after);
+}
+
+function change(
+  kind: StudentChangeKind,
+  before: StudentRecord | null,
+  after: StudentRecord | null,
+  matchedBy: StudentChange['matchedBy'],
+  changes: FieldChange[]
+): StudentChange {
+  const record = (after || before)!;
+  return {
+    kind,
+    matchedBy,
+    studentCid: record.studentCid,
+    studentId: record.studentId,
+    schoolCode: record.schoolCode,
+    name: `${record.firstName} ${record.lastName}`.trim(),
+    before,
+    after,
+    changes
+  };
+}
+
+/**
+ * Records to send to the portal: added ones, and modified ones with a change in any of
+ * `fields` (all fields when omitted). Removed records are never included.
+ */
+export function changedStudents(diff: StudentDiff, fields?: (keyof StudentRecord)[]): StudentRecord[] {
+  return diff.changes
+    .filter(item => item.kind === 'added'
+      || (item.kind === 'modified' && (!fields || item.changes.some(fieldChange => fields.includes(fieldChange.field)))))
+    .map(item => item.after!);
+}
+
+/**
+ * Writes the diff three ways and returns the paths:
+ * - `<basePath>.csv`, one row per changed field (added and removed records get one row each)
+ * - `<basePath>.json`, the whole diff
+ * - `<basePath>_changed.csv`, the added and modified records in the data-dictionary layout,
+ *   which the update specs load like any student file
+ */
+export function writeStudentDiff(
+  diff: StudentDiff,
+  basePath: string,
+  csvHandler: CsvDataHandler = CsvDataHandler.getInstance()
+): { csvPath: string; jsonPath: string; changedPath: string } {
+  const csvPath = `${basePath}.csv`;
+  const jsonPath = `${basePath}.json`;
+  const changedPath = `${basePath}_changed.csv`;
+
+  const header = ['Change', 'SchoolCode', 'StudentCid', 'StudentId', 'Name', 'Field', 'Before', 'After'];
+  const rows = diff.changes.flatMap(item => {
+    const identity = [item.kind, item.schoolCode, item.studentCid, item.studentId, item.name];
+    return item.changes.length > 0
+      ? item.changes.map(fieldChange => [...identity, fieldChange.field, fieldChange.before, fieldChange.after])
+      : [[...identity, '', '', '']];
+  });
+  writeCsvFile(csvPath, [header, ...rows]);
+  fs.writeFileSync(jsonPath, JSON.stringify(diff, null, 2), 'utf-8');
+  csvHandler.exportToCsv(changedStudents(diff), changedPath);
+
+  return { csvPath, jsonPath, changedPath };
+}
@@ -0,0 +1,71 @@
+import * as path from 'path';
+import { CsvDataHandler, StudentFilter, StudentLoadResult, StudentRecord, StudentStream } from './csv-data-handler';
+import { ImportAdapter } from './import-adapter';
+import { LoadXlsxOptions, XlsxDataHandler } from './xlsx-data-handler';
+
+export interface LoadStudentFileOptions extends LoadXlsxOptions {
+  /** Data dictionary file to read the student file with; see CsvDataHandler.getInstance. */
+  dictionary?: string;
+  /**
+   * Import mapping for an export of another school management system: a name in
+   * src/config/import-mappings or a path. Defaults to IMPORT_MAPPING from .env.
+   */
+  mapping?: string;
+}
+
+export function isXlsxFile(filePath: string): boolean {
+  return path.extname(filePath).toLowerCase() === '.xlsx';
+}
+
+/**
+ * Row filter from FILTER_SCHOOL_CODE, FILTER_GRADE and FILTER_ROOM in .env (comma-separated
+ * values), so a run can cover part of a district file. Undefined when none is set.
+ */
+export function studentFilterFromEnv(): StudentFilter | undefined {
+  const filter: StudentFilter = {};
+  const variables: [keyof StudentRecord, string][] = [['schoolCode', 'FILTER_SCHOOL_CODE'], ['grade', 'FILTER_GRADE'], ['room', 'FILTER_ROOM']];
+  for (const [field, variable] of variables) {
+    const values = (process.env[variable] || '').split(',').map(value => value.trim()).filter(value => value !== '');
+    if (values.length > 0) {
+      filter[field] = values;
+    }
+  }
+  return Object.keys(filter).length > 0 ? filter : undefined;
+}
+
+function importAdapterFor(options: LoadStudentFileOptions): ImportAdapter | undefined {
+  const mapping = options.mapping !== undefined ? options.mapping : process.env.IMPORT_MAPPING;
+  return mapping ? ImportAdapter.getInstance(mapping, CsvDataHandler.getInstance(options.dictionary)) : undefined;
+}
+
+/** Loads student records from a .xlsx workbook or, for any other extension, a CSV file. */
+export async function loadStudentFile(filePath: string, options: LoadStudentFileOptions = {}): Promise<StudentRecord[]> {
+  const adapter = importAdapterFor(options);
+  if (adapter) return adapter.loadStudentData(filePath, options);
+  return isXlsxFile(filePath)
+    ? XlsxDataHandler.getInstance(options.dictionary).loadStudentData(filePath, options)
+    : CsvDataHandler.getInstance(options.dictionary).loadStudentData(filePath, options);
+}
+
+export async function loadStudentFileWithReport(filePath: string, options: LoadStudentFileOptions = {}): Promise<StudentLoadResult> {
+  const adapter = importAdapterFor(options);
+  if (adapter) return adapter.loadStudentDataWithReport(filePath, options);
+  return isXlsxFile(filePath)
+    ? XlsxDataHandler.getInstance(options.dictionary).loadStudentDataWithReport(filePath, options)
+    : CsvDataHandler.getInstance(options.dictionary).loadStudentDataWithReport(filePath, options);
+}
+
+/** Yields records while the file is read; see CsvDataHandler.streamStudentData. */
+export async function* streamStudentFile(filePath: string, options: LoadStudentFileOptions = {}): AsyncGenerator<StudentRecord> {
+  const { records, report } = openStudentFileStream(filePath, options);
+  yield* records;
+  CsvDataHandler.getInstance(options.dictionary).logLoadReport(report);
+}
+
+export function openStudentFileStream(filePath: string, options: LoadStudentFileOptions = {}): StudentStream {
+  const adapter = importAdapterFor(options);
+  if (adapter) return adapter.openStudentStream(filePath, options);
+  return isXlsxFile(filePath)
+    ? XlsxDataHandler.getInstance(options.dictionary).openStudentStream(filePath, options)
+    : CsvDataHandler.getInstance(options.dictionary).openStudentStream(filePath, options);
+}
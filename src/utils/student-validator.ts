@@ -0,0 +1,183 @@
+import { DataDictionary, StudentRecord, ValidationProfile } from './csv-data-handler';
+import { expectedAgeForGrade, getGradeLabels, parseGrade } from './grade-level';
+import { checkThaiNationalId } from './thai-national-id';
+import { formatValue, isThaiDate } from './value-coercion';
+import {
+  ageOnCountingDate,
+  currentEducationYear,
+  dmcCountingDate,
+  formatThaiDate,
+  parseThaiDate
+} from './thai-date';
+
+export type ValidationRule = 'required' | 'type' | 'format' | 'checksum' | 'pattern' | 'allowedValues' | 'consistency';
+
+export interface ValidationError {
+  field: keyof StudentRecord;
+  /** Data row the record came from, when the caller knows it. */
+  row?: number;
+  value: string;
+  rule: ValidationRule;
+  message: string;
+  messageTh: string;
+}
+
+export interface ValidationResult {
+  isValid: boolean;
+  errors: ValidationError[];
+}
+
+export interface ValidateOptions {
+  profile?: ValidationProfile;
+  row?: number;
+  /** B.E. education year whose counting date (10 June) ages are checked against. Defaults to EDUCATION_YEAR, then the current one. */
+  educationYear?: string | number;
+}
+
+/**
+ * Checks student records against the `required`, `type`, `format`, `validation.pattern`
+ * and `allowedValues` rules declared in the data dictionary. A profile narrows the check
+ * to the fields one operation actually uses.
+ */
+export class StudentValidator {
+  constructor(private dictionary: DataDictionary) {}
+
+  public validate(student: StudentRecord, options: ValidateOptions = {}): ValidationResult {
+    const { profile, row } = options;
+    const educationYear = options.educationYear || process.env.EDUCATION_YEAR || currentEducationYear();
+    const fields = (profile ? [...profile.fields, ...(profile.optionalFields || [])] : Object.keys(this.dictionary)) as (keyof StudentRecord)[];
+    const errors: ValidationError[] = [];
+
+    for (const field of fields) {
+      const info = this.dictionary[field];
+      if (!info) continue;
+
+      const rawValue = student[field];
+      const value = formatValue(rawValue).trim();
+      const required = profile ? profile.requiredFields.includes(field) : info.required;
+      const error = (rule: ValidationRule, message: string, messageTh: string) =>
+        errors.push({ field, row, value, rule, message, messageTh });
+
+      if (value === '' || value === '-') {
+        if (required) {
+          error('required', `${info.englishName} is required`, `กรุณาระบุ${info.thaiName}`);
+        }
+        continue;
+      }
+
+      if (info.type === 'number' && !Number.isFinite(Number(value))) {
+        error('type', `${info.englishName} must be a number`, `${info.thaiName}ต้องเป็นตัวเลข`);
+        continue;
+      }
+
+      let checkedValue = value;
+      if (info.type === 'date') {
+        const date = isThaiDate(rawValue) ? rawValue : parseThaiDate(value);
+        if (!date) {
+          error(
+            'type',
+            `${info.englishName} "${value}" is not a valid date (expected dd/mm/yyyy)`,
+            `${info.thaiName} "${value}" ไม่ใช่วันที่ที่ถูกต้อง (รูปแบบ วว/ดด/ปปปป)`
+          );
+          continue;
+        }
+        checkedValue = formatThaiDate(date);
+      }
+
+      if (info.format === 'thaiNationalId') {
+        const check = checkThaiNationalId(value);
+        if (!check.isValid) {
+          error(check.code === 'checksum' ? 'checksum' : 'format', check.message!, check.messageTh!);
+          continue;
+        }
+      }
+
+      if (info.format === 'gradeLevel' && !parseGrade(value)) {
+        const known = getGradeLabels().join(', ');
+        error(
+          'format',
+          `Unknown ${info.englishName.toLowerCase()} "${value}" (expected one of ${known})`,
+          `ไม่รู้จัก${info.thaiName} "${value}" (ต้องเป็น ${known})`
+        );
+        continue;
+      }
+
+      if (info.validation && !new RegExp(info.validation.pattern).test(checkedValue)) {
+        error('pattern', info.validation.message, info.validation.messageTh || info.validation.message);
+        continue;
+      }
+
+      if (info.allowedValues && !info.allowedValues.includes(value)) {
+        const allowed = info.allowedValues.join(', ');
+        error(
+          'allowedValues',
+          `${info.englishName} must be one of: ${allowed}`,
+          `${info.thaiName}ต้องเป็นค่าใดค่าหนึ่งต่อไปนี้: ${allowed}`
+        );
+      }
+    }
+
+    if (fields.includes('birthDate')) {
+      errors.push(...this.checkAgeConsistency(student, fields, row, educationYear));
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Cross-checks the birth date against the declared age and grade, using the age on the
+   * DMC counting date. Declared ages may be one year off since sheets are filled in at
+   * different times of year; grades allow for early entry and repeated years.
+   */
+  private checkAgeConsistency(
+    student: StudentRecord,
+    fields: (keyof StudentRecord)[],
+    row: number | undefined,
+    educationYear: string | number
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const birthDate = student.birthDate;
+    if (!isThaiDate(birthDate)) return errors;
+    const birthDateText = formatThaiDate(birthDate);
+
+    const age = ageOnCountingDate(birthDate, educationYear);
+    const countingDate = formatThaiDate(dmcCountingDate(educationYear));
+    const error = (field: keyof StudentRecord, value: string, message: string, messageTh: string) =>
+      errors.push({ field, row, value, rule: 'consistency', message, messageTh });
+
+    if (age < 0) {
+      error(
+        'birthDate',
+        birthDateText,
+        `Birth date ${birthDateText} is after the counting date ${countingDate}`,
+        `วันเกิด ${birthDateText} อยู่หลังวันนับข้อมูล ${countingDate}`
+      );
+      return errors;
+    }
+
+    const declaredAge = student.age;
+    if (fields.includes('age') && typeof declaredAge === 'number' && Math.abs(declaredAge - age) > 1) {
+      error(
+        'age',
+        String(declaredAge),
+        `Age ${declaredAge} does not match birth date ${birthDateText} (${age} on ${countingDate})`,
+        `อายุ ${declaredAge} ปี ไม่ตรงกับวันเกิด ${birthDateText} (${age} ปี ณ ${countingDate})`
+      );
+    }
+
+    const expectedAge = fields.includes('grade') ? expectedAgeForGrade(student.grade) : null;
+    if (expectedAge !== null && (age < expectedAge - 1 || age > expectedAge + 4)) {
+      error(
+        'grade',
+        student.grade,
+        `Grade ${student.grade} is implausible for age ${age} on ${countingDate} (typically ${expectedAge})`,
+        `ชั้น ${student.grade} ไม่สอดคล้องกับอายุ ${age} ปี ณ ${countingDate} (ปกติ ${expectedAge} ปี)`
+      );
+    }
+
+    return errors;
+  }
+}
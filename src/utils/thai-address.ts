@@ -0,0 +1,298 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface ThaiAddress {
+  subdistrict: string;
+  district: string;
+  province: string;
+}
+
+export type ThaiAddressField = keyof ThaiAddress;
+
+export interface AddressCorrection {
+  field: ThaiAddressField;
+  before: string;
+  after: string;
+}
+
+export interface AddressCheckResult {
+  /**
+   * 'valid' when the names match the dataset once prefixes and spaces are dropped,
+   * 'corrected' when a close, unambiguous match was found, 'invalid' when there is none,
+   * 'incomplete' when only some of the three parts are filled in, 'empty' when none are.
+   */
+  status: 'valid' | 'corrected' | 'invalid' | 'incomplete' | 'empty';
+  /** The address as written in the dataset for valid and corrected results, otherwise as given. */
+  address: ThaiAddress;
+  /** Parts that differ from the input, including dropped prefixes. */
+  corrections: AddressCorrection[];
+  /** Postal codes of the subdistrict, for valid and corrected results. */
+  postcodes: string[];
+  /** Closest real combinations, best first, for invalid results. */
+  suggestions: ThaiAddress[];
+  message: string;
+  messageTh: string;
+}
+
+export interface AddressCheckOptions {
+  /** Return 'invalid' with suggestions instead of correcting close matches (default true). */
+  autocorrect?: boolean;
+  /** Number of suggestions for invalid addresses (default 3). */
+  maxSuggestions?: number;
+}
+
+/** province → district → subdistrict → postal codes */
+type AddressTable = { [province: string]: { [district: string]: { [subdistrict: string]: string[] } } };
+
+interface AddressEntry extends ThaiAddress {
+  postcodes: string[];
+}
+
+const FIELD_ORDER: ThaiAddressField[] = ['subdistrict', 'district', 'province'];
+
+const FIELD_NAMES: Record<ThaiAddressField, { english: string; thai: string }> = {
+  subdistrict: { english: 'subdistrict', thai: 'ตำบล' },
+  district: { english: 'district', thai: 'อำเภอ' },
+  province: { english: 'province', thai: 'จังหวัด' }
+};
+
+/** Prefixes people write before the name, longest first so "อำเภอ" wins over "อ.". */
+const PREFIXES: Record<ThaiAddressField, string[]> = {
+  subdistrict: ['ตำบล', 'แขวง', 'ต.'],
+  district: ['กิ่งอำเภอ', 'อำเภอ', 'เขต', 'อ.'],
+  province: ['จังหวัด', 'จ.']
+};
+
+/** Short forms of province names, as written once prefixes and spaces are dropped. */
+const PROVINCE_ALIASES: { [alias: string]: string } = {
+  'กรุงเทพฯ': 'กรุงเทพมหานคร',
+  'กรุงเทพ': 'กรุงเทพมหานคร',
+  'กทม.': 'กรุงเทพมหานคร',
+  'กทม': 'กรุงเทพมหานคร'
+};
+
+/**
+ * Autocorrect limits: one edit per five letters of a part, at most two per part and two in
+ * total, so "ชัยภุมิ" becomes "ชัยภูมิ" but a short name is never swapped for a different one.
+ */
+const LETTERS_PER_EDIT = 5;
+const MAX_PART_EDITS = 2;
+const MAX_TOTAL_EDITS = 2;
+
+/** Results of recent lookups that needed the fuzzy search; a school's records share a handful of addresses. */
+const MAX_CACHED_LOOKUPS = 5000;
+
+let addressEntries: AddressEntry[] | undefined;
+let entriesByKey: Map<string, AddressEntry> | undefined;
+const lookupCache = new Map<string, AddressCheckResult>();
+
+function getAddressEntries(): AddressEntry[] {
+  if (!addressEntries) {
+    let table: AddressTable;
+    try {
+      const tablePath = path.join(__dirname, '../config/thai-addresses.json');
+      table = JSON.parse(fs.readFileSync(tablePath, 'utf-8')).provinces;
+    } catch (error) {
+      throw new Error(`Failed to load Thai addresses: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    addressEntries = [];
+    entriesByKey = new Map();
+    for (const [province, districts] of Object.entries(table)) {
+      for (const [district, subdistricts] of Object.entries(districts)) {
+        for (const [subdistrict, postcodes] of Object.entries(subdistricts)) {
+          const entry = { subdistrict, district, province, postcodes };
+          addressEntries.push(entry);
+          entriesByKey.set(addressKey(entry), entry);
+        }
+      }
+    }
+  }
+  return addressEntries;
+}
+
+function addressKey(address: ThaiAddress): string {
+  return FIELD_ORDER.map(field => compact(address[field])).join('|');
+}
+
+function compact(name: string): string {
+  return name.replace(/\s+/g, '');
+}
+
+/** Drops a leading "ตำบล", "อ.", "จังหวัด" and the like, and all spaces. */
+export function stripAddressPrefix(field: ThaiAddressField, value: string): string {
+  const text = compact(value || '');
+  const prefix = PREFIXES[field].find(candidate => text.startsWith(candidate) && text.length > candidate.length);
+  return prefix ? text.slice(prefix.length) : text;
+}
+
+/** The full name of a province written in short, e.g. "กทม." for "กรุงเทพมหานคร". */
+function resolveProvinceAlias(province: string): string {
+  return PROVINCE_ALIASES[province] || province;
+}
+
+/** Levenshtein distance over UTF-16 code units, which for Thai is one per letter or mark. */
+function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * "เมือง" alone names the capital district of whichever province is given, which the
+ * dataset spells in full, e.g. "เมืองชัยภูมิ".
+ */
+function expandDistrict(district: string, province: string): string {
+  return district === 'เมือง' ? `เมือง${province}` : district;
+}
+
+/** Writes an address the way it is usually written on forms: "ต.กวางโจน อ.ภูเขียว จ.ชัยภูมิ". */
+export function formatThaiAddress(address: ThaiAddress): string {
+  return `ต.${address.subdistrict} อ.${address.district} จ.${address.province}`;
+}
+
+/**
+ * Checks a subdistrict/district/province triple against the bundled dataset. Prefixes
+ * such as "ต." and "จังหวัด" are dropped and short province names such as "กทม." are
+ * expanded; a misspelling within a couple of letters of
+ * exactly one real combination is corrected, anything else comes back 'invalid' with the
+ * closest combinations as suggestions. Results of fuzzy lookups are cached and shared,
+ * so treat them as read-only.
+ */
+export function checkThaiAddress(address: ThaiAddress, options: AddressCheckOptions = {}): AddressCheckResult {
+  const { autocorrect = true, maxSuggestions = 3 } = options;
+  const cacheKey = JSON.stringify([address.subdistrict, address.district, address.province, autocorrect, maxSuggestions]);
+  const cached = lookupCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const filled = FIELD_ORDER.filter(field => (address[field] || '').trim() !== '');
+  const result = (
+    status: AddressCheckResult['status'],
+    message: string,
+    messageTh: string,
+    extra: Partial<AddressCheckResult> = {}
+  ): AddressCheckResult => ({ status, address, corrections: [], postcodes: [], suggestions: [], message, messageTh, ...extra });
+
+  if (filled.length === 0) {
+    return result('empty', 'No address', 'ไม่มีที่อยู่');
+  }
+  if (filled.length < FIELD_ORDER.length) {
+    const missing = FIELD_ORDER.filter(field => !filled.includes(field));
+    return result(
+      'incomplete',
+      `Address is missing its ${missing.map(field => FIELD_NAMES[field].english).join(' and ')}`,
+      `ที่อยู่ไม่ครบ ขาด${missing.map(field => FIELD_NAMES[field].thai).join(' ')}`
+    );
+  }
+
+  const entries = getAddressEntries();
+  const wanted: ThaiAddress = {
+    subdistrict: stripAddressPrefix('subdistrict', address.subdistrict),
+    district: stripAddressPrefix('district', address.district),
+    province: resolveProvinceAlias(stripAddressPrefix('province', address.province))
+  };
+  const exact = entriesByKey!.get(addressKey(wanted))
+    || entriesByKey!.get(addressKey({ ...wanted, district: expandDistrict(wanted.district, wanted.province) }));
+  if (exact) {
+    return matched('valid', exact);
+  }
+
+  // Province and district distances are computed once per distinct name. A subdistrict
+  // is only compared when its length alone could still put it among the closest few.
+  const cache = new Map<string, number>();
+  const distance = (field: ThaiAddressField, name: string) => {
+    const key = `${field}|${name}`;
+    if (!cache.has(key)) cache.set(key, editDistance(name, wanted[field]));
+    return cache.get(key)!;
+  };
+  const keep = Math.max(maxSuggestions, 2);
+  const scored: { entry: AddressEntry; parts: Record<ThaiAddressField, number>; total: number }[] = [];
+  for (const entry of entries) {
+    const province = distance('province', entry.province);
+    const district = entry.district === expandDistrict(wanted.district, entry.province) ? 0 : distance('district', entry.district);
+    const bound = scored.length < keep ? Infinity : scored[scored.length - 1].total;
+    if (province + district + Math.abs(entry.subdistrict.length - wanted.subdistrict.length) >= bound) continue;
+
+    const parts = { subdistrict: distance('subdistrict', entry.subdistrict), district, province };
+    const total = parts.subdistrict + parts.district + parts.province;
+    if (total >= bound) continue;
+    const position = scored.findIndex(other => other.total > total);
+    scored.splice(position === -1 ? scored.length : position, 0, { entry, parts, total });
+    scored.length = Math.min(scored.length, keep);
+  }
+
+  const [best, runnerUp] = scored;
+  const closeEnough = best.total <= MAX_TOTAL_EDITS
+    && FIELD_ORDER.every(field => best.parts[field] <= Math.min(MAX_PART_EDITS, Math.floor(best.entry[field].length / LETTERS_PER_EDIT)));
+  const searched = autocorrect && closeEnough && (!runnerUp || runnerUp.total > best.total)
+    ? matched('corrected', best.entry)
+    : unmatched(scored.map(({ entry }) => entry));
+  if (lookupCache.size >= MAX_CACHED_LOOKUPS) lookupCache.clear();
+  lookupCache.set(cacheKey, searched);
+  return searched;
+
+  function unmatched(closest: AddressEntry[]): AddressCheckResult {
+    const suggestions = closest.slice(0, maxSuggestions).map(({ subdistrict, district, province }) => ({ subdistrict, district, province }));
+    const unknown = FIELD_ORDER.filter(field => !entries.some(entry => entry[field] === (field === 'district'
+      ? expandDistrict(wanted.district, entry.province)
+      : wanted[field])));
+    const problem = unknown.length > 0
+      ? {
+        message: `Unknown ${unknown.map(field => `${FIELD_NAMES[field].english} "${address[field]}"`).join(', ')}`,
+        messageTh: `ไม่พบ${unknown.map(field => `${FIELD_NAMES[field].thai} "${address[field]}"`).join(' ')}`
+      }
+      : {
+        message: `${formatThaiAddress(wanted)} is not a real combination`,
+        messageTh: `${formatThaiAddress(wanted)} ไม่ใช่ตำบล อำเภอ จังหวัดที่อยู่ด้วยกันจริง`
+      };
+    return result(
+      'invalid',
+      `${problem.message} (closest: ${suggestions.map(formatThaiAddress).join('; ')})`,
+      `${problem.messageTh} (ใกล้เคียง: ${suggestions.map(formatThaiAddress).join('; ')})`,
+      { suggestions }
+    );
+  }
+
+  function matched(status: 'valid' | 'corrected', entry: AddressEntry): AddressCheckResult {
+    const corrected: ThaiAddress = { subdistrict: entry.subdistrict, district: entry.district, province: entry.province };
+    const corrections = FIELD_ORDER
+      .filter(field => address[field] !== corrected[field])
+      .map(field => ({ field, before: address[field], after: corrected[field] }));
+    return {
+      status,
+      address: corrected,
+      corrections,
+      postcodes: entry.postcodes,
+      suggestions: [],
+      message: status === 'valid' ? 'Address is valid' : `Address corrected to ${formatThaiAddress(corrected)}`,
+      messageTh: status === 'valid' ? 'ที่อยู่ถูกต้อง' : `แก้ที่อยู่เป็น ${formatThaiAddress(corrected)}`
+    };
+  }
+}
+
+/** Postal codes for a triple, or an empty list when it is not in the dataset. */
+export function findPostcodes(address: ThaiAddress): string[] {
+  const result = checkThaiAddress(address, { autocorrect: false });
+  return result.status === 'valid' ? result.postcodes : [];
+}
+
+/** Every subdistrict with the given postal code. */
+export function findAddressesByPostcode(postcode: string): ThaiAddress[] {
+  const code = postcode.trim();
+  return getAddressEntries()
+    .filter(entry => entry.postcodes.includes(code))
+    .map(({ subdistrict, district, province }) => ({ subdistrict, district, province }));
+}
@@ -0,0 +1,140 @@
+import { foldThaiDigits } from './thai-text';
+
+/** A calendar date; `year` is always Common Era. */
+export interface ThaiDate {
+  day: number;
+  month: number;
+  year: number;
+}
+
+export type Era = 'BE' | 'CE';
+
+export const BUDDHIST_ERA_OFFSET = 543;
+
+const THAI_MONTHS: string[][] = [
+  ['มกราคม', 'มค'],
+  ['กุมภาพันธ์', 'กพ'],
+  ['มีนาคม', 'มีค'],
+  ['เมษายน', 'เมย'],
+  ['พฤษภาคม', 'พค'],
+  ['มิถุนายน', 'มิย'],
+  ['กรกฎาคม', 'กค'],
+  ['สิงหาคม', 'สค'],
+  ['กันยายน', 'กย'],
+  ['ตุลาคม', 'ตค'],
+  ['พฤศจิกายน', 'พย'],
+  ['ธันวาคม', 'ธค']
+];
+
+const NUMERIC_DATE = /^([0-9]{1,2})[/.\-]([0-9]{1,2})[/.\-]([0-9]{2}|[0-9]{4})$/;
+const ISO_DATE = /^([0-9]{4})-([0-9]{1,2})-([0-9]{1,2})$/;
+const THAI_MONTH_DATE = /^([0-9]{1,2})\s*([ก-ฮะ-์.\s]+?)\s*([0-9]{2}|[0-9]{4})$/;
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+export function daysInMonth(month: number, year: number): number {
+  return [31, isLeapYear(year) ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31][month - 1];
+}
+
+/**
+ * Four-digit years from 2400 up are Buddhist Era, lower ones Common Era. Two-digit
+ * years are read as B.E. ("55" is 2555), which is how Thai school sheets abbreviate them.
+ */
+function toCommonEraYear(yearText: string, era?: Era): number {
+  let year = parseInt(yearText, 10);
+  if (yearText.length === 2) {
+    year += era === 'CE' ? 2000 : 2500;
+    return era === 'CE' ? year : year - BUDDHIST_ERA_OFFSET;
+  }
+  if (era === 'BE' || (era === undefined && year >= 2400)) {
+    return year - BUDDHIST_ERA_OFFSET;
+  }
+  return year;
+}
+
+function monthFromThaiName(name: string): number | null {
+  const key = name.replace(/[.\s]/g, '');
+  const index = THAI_MONTHS.findIndex(names => names.includes(key));
+  return index === -1 ? null : index + 1;
+}
+
+/**
+ * Parses the birth date formats found in student sheets: dd/mm/yyyy, d/m/yy (also with
+ * "-" or "."), yyyy-mm-dd, and Thai month names ("20 มีนาคม 2555", "20 มี.ค. 55"),
+ * in either era. An explicit "พ.ศ." or "ค.ศ." marker overrides the year heuristic.
+ * Returns null when the text is not a real calendar date.
+ */
+export function parseThaiDate(raw: string): ThaiDate | null {
+  let text = foldThaiDigits((raw || '').trim());
+  let era: Era | undefined;
+  if (/พ\.?\s*ศ\.?/.test(text)) era = 'BE';
+  if (/ค\.?\s*ศ\.?/.test(text)) era = 'CE';
+  text = text.replace(/[พค]\.?\s*ศ\.?/g, '').replace(/\s+/g, ' ').trim();
+
+  let day: number;
+  let month: number | null;
+  let year: number;
+
+  let match = ISO_DATE.exec(text);
+  if (match) {
+    year = toCommonEraYear(match[1], era);
+    month = parseInt(match[2], 10);
+    day = parseInt(match[3], 10);
+  } else if ((match = NUMERIC_DATE.exec(text))) {
+    day = parseInt(match[1], 10);
+    month = parseInt(match[2], 10);
+    year = toCommonEraYear(match[3], era);
+  } else if ((match = THAI_MONTH_DATE.exec(text))) {
+    day = parseInt(match[1], 10);
+    month = monthFromThaiName(match[2]);
+    year = toCommonEraYear(match[3], era);
+  } else {
+    return null;
+  }
+
+  if (month === null || month < 1 || month > 12 || day < 1 || day > daysInMonth(month, year)) {
+    return null;
+  }
+  return { day, month, year };
+}
+
+/** Formats as dd/mm/yyyy, in B.E. by default as the DMC portal expects. */
+export function formatThaiDate(date: ThaiDate, era: Era = 'BE'): string {
+  const year = era === 'BE' ? date.year + BUDDHIST_ERA_OFFSET : date.year;
+  return `${String(date.day).padStart(2, '0')}/${String(date.month).padStart(2, '0')}/${year}`;
+}
+
+export function toJsDate(date: ThaiDate): Date {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day));
+}
+
+export function compareThaiDates(a: ThaiDate, b: ThaiDate): number {
+  return (a.year - b.year) || (a.month - b.month) || (a.day - b.day);
+}
+
+/** The DMC head-count date: 10 June of the (B.E.) education year. */
+export function dmcCountingDate(educationYear: string | number): ThaiDate {
+  return { day: 10, month: 6, year: Number(educationYear) - BUDDHIST_ERA_OFFSET };
+}
+
+/** The B.E. education year in progress on `today`; a new year starts on 16 May. */
+export function currentEducationYear(today: Date = new Date()): number {
+  const year = today.getFullYear() + BUDDHIST_ERA_OFFSET;
+  const beforeStart = today.getMonth() < 4 || (today.getMonth() === 4 && today.getDate() < 16);
+  return beforeStart ? year - 1 : year;
+}
+
+/** Completed years between `birthDate` and `onDate`. */
+export function ageOn(birthDate: ThaiDate, onDate: ThaiDate): number {
+  let age = onDate.year - birthDate.year;
+  if (onDate.month < birthDate.month || (onDate.month === birthDate.month && onDate.day < birthDate.day)) {
+    age--;
+  }
+  return age;
+}
+
+export function ageOnCountingDate(birthDate: ThaiDate, educationYear: string | number): number {
+  return ageOn(birthDate, dmcCountingDate(educationYear));
+}
@@ -0,0 +1,98 @@
+import { foldThaiDigits } from './thai-text';
+
+export type ThaiNationalIdErrorCode =
+  | 'empty'
+  | 'scientificNotation'
+  | 'invalidCharacters'
+  | 'length'
+  | 'checksum';
+
+export interface ThaiNationalIdCheck {
+  isValid: boolean;
+  /** Normalized value (digits only when normalization was lossless, otherwise the trimmed input). */
+  normalized: string;
+  code?: ThaiNationalIdErrorCode;
+  message?: string;
+  messageTh?: string;
+}
+
+const SCIENTIFIC_NOTATION = /^([0-9])(?:\.([0-9]+))?e\+?([0-9]+)$/i;
+
+/**
+ * Expands Excel scientific notation ("1.368400145149E+12") when every digit is still
+ * present. Returns null when the mantissa is too short, i.e. Excel already rounded the ID.
+ */
+function expandScientificNotation(value: string): string | null {
+  const match = SCIENTIFIC_NOTATION.exec(value);
+  if (!match) return null;
+  const [, leading, fraction = '', exponent] = match;
+  if (fraction.length !== parseInt(exponent, 10)) return null;
+  return leading + fraction;
+}
+
+/**
+ * Normalizes the formats national IDs arrive in: dashes ("1-3684-00145-14-9"),
+ * spaces, Thai digits and lossless Excel scientific notation. Values that cannot be
+ * normalized without guessing are returned trimmed but otherwise unchanged.
+ */
+export function normalizeThaiNationalId(raw: string): string {
+  const value = foldThaiDigits(raw.trim());
+  const compact = value.replace(/[\s\-\u200B]/g, '');
+  if (/^[0-9]+$/.test(compact)) {
+    return compact;
+  }
+  return expandScientificNotation(compact) || value;
+}
+
+/** Mod-11 check digit over the first 12 digits, as issued by the Department of Provincial Administration. */
+export function computeThaiNationalIdCheckDigit(first12Digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += parseInt(first12Digits[i], 10) * (13 - i);
+  }
+  return (11 - (sum % 11)) % 10;
+}
+
+export function checkThaiNationalId(raw: string): ThaiNationalIdCheck {
+  const normalized = normalizeThaiNationalId(raw || '');
+  const invalid = (code: ThaiNationalIdErrorCode, message: string, messageTh: string): ThaiNationalIdCheck =>
+    ({ isValid: false, normalized, code, message, messageTh });
+
+  if (normalized === '') {
+    return invalid('empty', 'National ID is empty', 'ไม่มีเลขประจำตัวประชาชน');
+  }
+  if (SCIENTIFIC_NOTATION.test(normalized.replace(/\s/g, ''))) {
+    return invalid(
+      'scientificNotation',
+      `National ID "${normalized}" was rounded by Excel scientific notation; format the column as text and export again`,
+      `เลขประจำตัวประชาชน "${normalized}" ถูก Excel ปัดเป็นรูปแบบ E+ ตัวเลขสูญหาย กรุณาตั้งคอลัมน์เป็นข้อความแล้วส่งออกใหม่`
+    );
+  }
+  if (!/^[0-9]+$/.test(normalized)) {
+    const badCharacters = Array.from(new Set(normalized.replace(/[0-9]/g, ''))).join('');
+    return invalid(
+      'invalidCharacters',
+      `National ID contains non-digit characters: "${badCharacters}"`,
+      `เลขประจำตัวประชาชนมีอักขระที่ไม่ใช่ตัวเลข: "${badCharacters}"`
+    );
+  }
+  if (normalized.length !== 13) {
+    return invalid(
+      'length',
+      `National ID has ${normalized.length} digits, expected 13`,
+      `เลขประจำตัวประชาชนมี ${normalized.length} หลัก ต้องมี 13 หลัก`
+    );
+  }
+
+  const expected = computeThaiNationalIdCheckDigit(normalized);
+  const actual = parseInt(normalized[12], 10);
+  if (expected !== actual) {
+    return invalid(
+      'checksum',
+      `National ID check digit is ${actual} but should be ${expected}; one of the digits is mistyped`,
+      `หลักตรวจสอบของเลขประจำตัวประชาชนคือ ${actual} แต่ควรเป็น ${expected} มีตัวเลขพิมพ์ผิด`
+    );
+  }
+
+  return { isValid: true, normalized };
+}
@@ -0,0 +1,86 @@
+export type TextNormalization =
+  | 'stripInvisible'
+  | 'unicode'
+  | 'foldDigits'
+  | 'fixMarks'
+  | 'collapseWhitespace'
+  | 'trim';
+
+export interface TextNormalizationResult {
+  value: string;
+  /** Steps that changed the text, in the order they ran. */
+  applied: TextNormalization[];
+}
+
+/** Steps always run in this order, whatever order a field lists them in. */
+const STEP_ORDER: TextNormalization[] = ['stripInvisible', 'unicode', 'foldDigits', 'fixMarks', 'collapseWhitespace', 'trim'];
+
+const THAI_DIGITS = '๐๑๒๓๔๕๖๗๘๙';
+
+/** Zero-width characters, BOM, soft hyphen, direction marks and C0/C1 control characters (tabs and line breaks excepted). */
+const INVISIBLE_CHARACTERS = /[\u200B-\u200F\u2060\uFEFF\u00AD\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F]/g;
+
+const NIKHAHIT = '\u0E4D';
+const SARA_AA = '\u0E32';
+const SARA_AM = '\u0E33';
+const TONE_MARK = '[\u0E48-\u0E4B]';
+/** Mai han-akat, the upper and lower vowels, and maitaikhu: written before any tone mark. */
+const VOWEL_MARK = '[\u0E31\u0E34-\u0E3A\u0E47]';
+const COMBINING_MARK = '[\u0E31\u0E34-\u0E3A\u0E47-\u0E4E]';
+
+export function isTextNormalization(step: unknown): step is TextNormalization {
+  return STEP_ORDER.includes(step as TextNormalization);
+}
+
+export function foldThaiDigits(value: string): string {
+  return value.replace(/[๐-๙]/g, digit => String(THAI_DIGITS.indexOf(digit)));
+}
+
+export function stripInvisibleCharacters(value: string): string {
+  return value.replace(INVISIBLE_CHARACTERS, '');
+}
+
+/**
+ * Repairs the mark sequences that copy-pasting and some input methods produce:
+ * repeated vowel or tone marks, sara am typed as nikhahit + sara aa, a tone mark typed
+ * after sara am, and a tone mark typed before an upper or lower vowel.
+ */
+export function fixThaiMarks(value: string): string {
+  const dedupe = (text: string) => text.replace(new RegExp(`(${COMBINING_MARK})\\1+`, 'g'), '$1');
+  let text = dedupe(value);
+  text = text.replace(new RegExp(`${NIKHAHIT}(${TONE_MARK})?${SARA_AA}`, 'g'), (_, tone = '') => tone + SARA_AM);
+  text = text.replace(new RegExp(`${SARA_AM}(${TONE_MARK})`, 'g'), `$1${SARA_AM}`);
+  text = text.replace(new RegExp(`(${TONE_MARK})(${VOWEL_MARK})`, 'g'), '$2$1');
+  return dedupe(text);
+}
+
+const STEPS: Record<TextNormalization, (value: string) => string> = {
+  stripInvisible: stripInvisibleCharacters,
+  unicode: value => value.normalize('NFC'),
+  foldDigits: foldThaiDigits,
+  fixMarks: fixThaiMarks,
+  collapseWhitespace: value => value.replace(/\s+/g, ' '),
+  trim: value => value.trim()
+};
+
+/** Runs the requested steps and reports which of them changed the text. */
+export function normalizeThaiText(value: string, steps: TextNormalization[]): TextNormalizationResult {
+  const applied: TextNormalization[] = [];
+  let text = value;
+  for (const step of STEP_ORDER) {
+    if (!steps.includes(step)) continue;
+    const next = STEPS[step](text);
+    if (next !== text) {
+      applied.push(step);
+      text = next;
+    }
+  }
+  return { value: text, applied };
+}
+
+/** Shows invisible characters as \u{...} escapes, for logging changes that would otherwise look identical. */
+export function showInvisibleCharacters(value: string): string {
+  return value.replace(new RegExp(`${INVISIBLE_CHARACTERS.source}|[^\\S ]`, 'g'), char =>
+    `\\u{${char.codePointAt(0)!.toString(16).toUpperCase()}}`
+  );
+}
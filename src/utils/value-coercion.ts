@@ -0,0 +1,61 @@
+import { foldThaiDigits } from './thai-text';
+import { formatThaiDate, parseThaiDate, ThaiDate } from './thai-date';
+
+export type FieldType = 'string' | 'number' | 'date';
+
+/** A coerced field value; `null` means the cell was absent (empty or "-"). */
+export type FieldValue = string | number | ThaiDate | null;
+
+export interface CoercionResult {
+  value: FieldValue;
+  /**
+   * Set when the cell had content that could not be read as `type`. `value` is then the
+   * trimmed text, so an unreadable cell stays distinguishable from an absent one.
+   */
+  error?: string;
+}
+
+/** Empty cells and the "-" placeholder used in DMC exports both mean "no value". */
+export function isAbsent(raw: string | null | undefined): boolean {
+  const value = (raw || '').trim();
+  return value === '' || value === '-';
+}
+
+export function isThaiDate(value: unknown): value is ThaiDate {
+  return typeof value === 'object' && value !== null && 'day' in value && 'month' in value && 'year' in value;
+}
+
+/**
+ * Converts a raw cell into its dictionary type. Absent strings become '', absent numbers
+ * and dates become null, so "leave this field alone" is never confused with zero. Text that
+ * is not a number or date is returned as-is with an error, for validation to reject.
+ */
+export function coerceValue(raw: string, type: FieldType): CoercionResult {
+  if (isAbsent(raw)) {
+    return { value: type === 'string' ? '' : null };
+  }
+  const value = raw.trim();
+
+  if (type === 'number') {
+    const number = Number(foldThaiDigits(value));
+    return Number.isFinite(number)
+      ? { value: number }
+      : { value, error: `"${value}" is not a number` };
+  }
+
+  if (type === 'date') {
+    const date = parseThaiDate(value);
+    return date
+      ? { value: date }
+      : { value, error: `"${value}" is not a valid date` };
+  }
+
+  return { value };
+}
+
+/** Inverse of coerceValue: numbers as-is, dates as dd/mm/yyyy B.E., absent as ''. */
+export function formatValue(value: FieldValue | undefined): string {
+  if (value === null || value === undefined) return '';
+  if (isThaiDate(value)) return formatThaiDate(value);
+  return String(value);
+}
@@ -0,0 +1,188 @@
+import * as ExcelJS from 'exceljs';
+import {
+  CsvDataHandler,
+  ExportCsvOptions,
+  LoadStudentDataOptions,
+  StudentLoadResult,
+  StudentRecord,
+  StudentStream
+} from './csv-data-handler';
+import { CsvRow } from './csv-parser';
+import { CsvCell, stringifyCsv } from './csv-writer';
+import { formatThaiDate } from './thai-date';
+
+export interface LoadXlsxOptions extends LoadStudentDataOptions {
+  /** Worksheet name or 1-based position. Defaults to the first sheet. */
+  sheet?: string | number;
+}
+
+export type ExportXlsxOptions = Pick<ExportCsvOptions, 'headerLanguage' | 'fields'> & {
+  sheetName?: string;
+};
+
+export interface ResultWorkbook {
+  /** Label/value pairs for the Summary sheet. */
+  summary: CsvCell[][];
+  /** Column headers shared by the Successes and Errors sheets. */
+  header: string[];
+  successes: CsvCell[][];
+  errors: CsvCell[][];
+  /** Further sheets after Errors, e.g. the plan of a dry run. */
+  sheets?: { name: string; header: string[]; rows: CsvCell[][] }[];
+}
+
+/**
+ * Reads and writes Excel workbooks. Sheets are turned into rows and handed to
+ * CsvDataHandler, so header mapping, coercion, validation and load reports behave
+ * exactly as they do for CSV files.
+ */
+export class XlsxDataHandler {
+  private static instances = new Map<CsvDataHandler, XlsxDataHandler>();
+  private csvHandler: CsvDataHandler;
+
+  private constructor(csvHandler: CsvDataHandler) {
+    this.csvHandler = csvHandler;
+  }
+
+  /** One handler per dictionary, chosen as in CsvDataHandler.getInstance. */
+  public static getInstance(dictionaryPath?: string): XlsxDataHandler {
+    const csvHandler = CsvDataHandler.getInstance(dictionaryPath);
+    let instance = XlsxDataHandler.instances.get(csvHandler);
+    if (!instance) {
+      instance = new XlsxDataHandler(csvHandler);
+      XlsxDataHandler.instances.set(csvHandler, instance);
+    }
+    return instance;
+  }
+
+  public async loadStudentData(xlsxFilePath: string, options: LoadXlsxOptions = {}): Promise<StudentRecord[]> {
+    const { records, report } = await this.loadStudentDataWithReport(xlsxFilePath, options);
+    this.csvHandler.logLoadReport(report);
+    return records;
+  }
+
+  public async loadStudentDataWithReport(xlsxFilePath: string, options: LoadXlsxOptions = {}): Promise<StudentLoadResult> {
+    let result: StudentLoadResult;
+    try {
+      const workbook = new ExcelJS.Workbook();
+      await workbook.xlsx.readFile(xlsxFilePath);
+      const rows = this.readSheetRows(this.getWorksheet(workbook, options.sheet));
+      result = this.csvHandler.loadStudentRows(rows, xlsxFilePath, options);
+    } catch (error) {
+      throw new Error(`Error loading Excel file: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    this.csvHandler.enforceStrictMode(result.report, options);
+    return result;
+  }
+
+  public async *streamStudentData(xlsxFilePath: string, options: LoadXlsxOptions = {}): AsyncGenerator<StudentRecord> {
+    const { records, report } = this.openStudentStream(xlsxFilePath, options);
+    yield* records;
+    this.csvHandler.logLoadReport(report);
+  }
+
+  /**
+   * Iterator counterpart of loadStudentDataWithReport. An .xlsx file is a zip archive, so
+   * the sheet is read as a whole, but rows are still filtered, mapped and validated one
+   * at a time as the caller consumes them.
+   */
+  public openStudentStream(xlsxFilePath: string, options: LoadXlsxOptions = {}): StudentStream {
+    const report = this.csvHandler.createLoadReport(xlsxFilePath);
+    const rows = this.readWorkbookRows(xlsxFilePath, options.sheet);
+    return { records: this.csvHandler.streamStudentRows(rows, report, options, 'Excel'), report };
+  }
+
+  public async exportToXlsx(students: StudentRecord[], outputPath: string, options: ExportXlsxOptions = {}): Promise<void> {
+    const fields = this.csvHandler.getExportFields(options);
+    const [headers, ...rows] = this.csvHandler.buildExportRows(students, options);
+    const numberColumns = fields.map(field => this.csvHandler.getFieldInfo(field).type === 'number');
+
+    const workbook = new ExcelJS.Workbook();
+    this.addSheet(workbook, options.sheetName || 'Students', headers, rows.map(row =>
+      row.map((value, index) => numberColumns[index] && value !== '' ? Number(value) : value)
+    ));
+    await workbook.xlsx.writeFile(outputPath);
+  }
+
+  /** Writes a run report as Summary, Successes and Errors sheets, then any further sheets. */
+  public async writeResultWorkbook(outputPath: string, report: ResultWorkbook): Promise<void> {
+    const workbook = new ExcelJS.Workbook();
+    this.addSheet(workbook, 'Summary', ['Item', 'Value'], report.summary);
+    this.addSheet(workbook, 'Successes', report.header, report.successes);
+    this.addSheet(workbook, 'Errors', report.header, report.errors);
+    for (const sheet of report.sheets || []) {
+      this.addSheet(workbook, sheet.name, sheet.header, sheet.rows);
+    }
+    await workbook.xlsx.writeFile(outputPath);
+  }
+
+  private addSheet(workbook: ExcelJS.Workbook, name: string, header: CsvCell[], rows: CsvCell[][]): void {
+    const sheet = workbook.addWorksheet(name, { views: [{ state: 'frozen', ySplit: 1 }] });
+    sheet.addRow(header).font = { bold: true };
+    for (const row of rows) {
+      sheet.addRow(row.map(cell => cell === undefined ? null : cell));
+    }
+    sheet.columns.forEach((column, index) => {
+      const widest = Math.max(...[header, ...rows].map(row => String(row[index] ?? '').length));
+      column.width = Math.min(Math.max(widest + 2, 10), 60);
+    });
+  }
+
+  private getWorksheet(workbook: ExcelJS.Workbook, sheet?: string | number): ExcelJS.Worksheet {
+    const worksheet = sheet === undefined
+      ? workbook.worksheets[0]
+      : typeof sheet === 'number' ? workbook.worksheets[sheet - 1] : workbook.getWorksheet(sheet);
+    if (!worksheet) {
+      const available = workbook.worksheets.map(candidate => candidate.name).join(', ');
+      throw new Error(`Worksheet ${sheet === undefined ? '' : `"${sheet}" `}not found (available: ${available || 'none'})`);
+    }
+    return worksheet;
+  }
+
+  /** Cell text of every row of a sheet, header first, for readers that rewrite rows before loading them. */
+  public async readRows(xlsxFilePath: string, sheet?: string | number): Promise<CsvRow[]> {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(xlsxFilePath);
+    return this.readSheetRows(this.getWorksheet(workbook, sheet));
+  }
+
+  private async *readWorkbookRows(xlsxFilePath: string, sheet?: string | number): AsyncGenerator<CsvRow> {
+    yield* await this.readRows(xlsxFilePath, sheet);
+  }
+
+  /** Converts a worksheet to rows of cell text; Excel row numbers become line numbers in the load report. */
+  private readSheetRows(worksheet: ExcelJS.Worksheet): CsvRow[] {
+    const rows: CsvRow[] = [];
+    let headerWidth = 0;
+
+    worksheet.eachRow((row, rowNumber) => {
+      const width = Math.max(row.cellCount, headerWidth);
+      const fields: string[] = [];
+      for (let column = 1; column <= width; column++) {
+        fields.push(this.cellToText(row.getCell(column).value));
+      }
+      if (rows.length === 0) {
+        headerWidth = fields.length;
+      }
+      rows.push({ lineNumber: rowNumber, fields, raw: stringifyCsv([fields]) });
+    });
+
+    return rows;
+  }
+
+  private cellToText(value: ExcelJS.CellValue): string {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number') return String(value);
+    if (typeof value === 'boolean') return value ? 'True' : 'False';
+    if (value instanceof Date) {
+      return formatThaiDate({ day: value.getUTCDate(), month: value.getUTCMonth() + 1, year: value.getUTCFullYear() });
+    }
+    if ('richText' in value) return value.richText.map(part => part.text).join('');
+    if ('formula' in value || 'sharedFormula' in value) return this.cellToText(value.result as ExcelJS.CellValue);
+    if ('hyperlink' in value) return String(value.text);
+    if ('error' in value) return value.error;
+    return String(value);
+  }
+}
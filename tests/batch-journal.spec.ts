@@ -0,0 +1,85 @@
+import { test, expect } from './fixtures/cdp-fixtures';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BatchJournal, checkpointPath, hashInput } from '../src/utils/batch-journal';
+
+/** BatchJournal resume decisions, input-hash invalidation and hashInput */
+const COMPLETED = ['success', 'unchanged'];
+
+let directory: string;
+
+test.beforeAll(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'batch-journal-'));
+});
+
+test.afterAll(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+const RESUME_CASES: { name: string; entries: [string, string][]; checkedHash?: string; completed: boolean }[] = [
+  { name: 'finished with the same input', entries: [['pending', 'h1'], ['success', 'h1']], completed: true },
+  { name: 'finished without changes', entries: [['pending', 'h1'], ['unchanged', 'h1']], completed: true },
+  { name: 'input changed since', entries: [['pending', 'h1'], ['success', 'h1']], checkedHash: 'h2', completed: false },
+  { name: 'run died mid-record', entries: [['pending', 'h1'], ['success', 'h1'], ['pending', 'h1']], completed: false },
+  { name: 'failed', entries: [['pending', 'h1'], ['error', 'h1']], completed: false },
+  { name: 'failed, then finished on a rerun', entries: [['error', 'h1'], ['pending', 'h1'], ['success', 'h1']], completed: true },
+  { name: 'never recorded', entries: [], completed: false }
+];
+
+for (const { name, entries, checkedHash = 'h1', completed } of RESUME_CASES) {
+  test(`resume: ${name}`, () => {
+    const filePath = path.join(directory, `${name.replace(/\W+/g, '-')}.jsonl`);
+    const first = new BatchJournal(filePath, 'set-health');
+    for (const [status, inputHash] of entries) {
+      first.record('36022006:39086', inputHash, status);
+    }
+    expect(new BatchJournal(filePath, 'set-health').isCompleted('36022006:39086', checkedHash, COMPLETED)).toBe(completed);
+  });
+}
+
+test('a journal only resumes its own operation', () => {
+  const filePath = path.join(directory, 'shared.jsonl');
+  new BatchJournal(filePath, 'set-scout').record('36022006:39086', 'h1', 'success');
+  expect(new BatchJournal(filePath, 'set-health').isCompleted('36022006:39086', 'h1', COMPLETED)).toBe(false);
+  expect(new BatchJournal(filePath, 'set-scout').isCompleted('36022006:39086', 'h1', COMPLETED)).toBe(true);
+});
+
+test('a line cut off by a crash is ignored', () => {
+  const filePath = path.join(directory, 'cut.jsonl');
+  new BatchJournal(filePath, 'set-health').record('36022006:39086', 'h1', 'success');
+  fs.appendFileSync(filePath, '{"key":"36022006:39086","operation":"set-health","inputHash":"h1","sta');
+  expect(new BatchJournal(filePath, 'set-health').isCompleted('36022006:39086', 'h1', COMPLETED)).toBe(true);
+});
+
+test('reset starts a new journal', () => {
+  const filePath = path.join(directory, 'reset.jsonl');
+  new BatchJournal(filePath, 'set-health').record('36022006:39086', 'h1', 'success');
+  const journal = new BatchJournal(filePath, 'set-health', { reset: true });
+  expect(journal.isCompleted('36022006:39086', 'h1', COMPLETED)).toBe(false);
+  expect(fs.existsSync(filePath)).toBe(false);
+});
+
+test('outcomes recorded after opening do not change what the run resumes', () => {
+  const journal = new BatchJournal(path.join(directory, 'open.jsonl'), 'set-health');
+  journal.record('36022006:39086', 'h1', 'success');
+  expect(journal.isCompleted('36022006:39086', 'h1', COMPLETED)).toBe(false);
+});
+
+const HASH_CASES: { name: string; a: unknown; b: unknown; same: boolean }[] = [
+  { name: 'key order', a: { weight: 40, height: 150 }, b: { height: 150, weight: 40 }, same: true },
+  { name: 'undefined and null', a: { weight: undefined }, b: { weight: null }, same: true },
+  { name: 'nested key order', a: { date: { day: 1, month: 2 } }, b: { date: { month: 2, day: 1 } }, same: true },
+  { name: 'different values', a: { weight: 40 }, b: { weight: 40.5 }, same: false },
+  { name: 'number and string', a: { room: 1 }, b: { room: '1' }, same: false },
+  { name: 'list order', a: [1, 2], b: [2, 1], same: false }
+];
+
+for (const { name, a, b, same } of HASH_CASES) {
+  test(`hashInput: ${name}`, () => {
+    expect(hashInput(a) === hashInput(b)).toBe(same);
+    expect(hashInput(a)).toMatch(/^[0-9a-f]{16}$/);
+  });
+}
+
+test('checkpointPath is per operation and input file name', () => {
+  expect(checkpointPath('health_data_update', 'data/stu.csv', '/checkpoints')).toBe(path.join('/checkpoints', 'health_data_update_stu.csv.jsonl'));
+});
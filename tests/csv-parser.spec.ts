@@ -0,0 +1,72 @@
+import { test, expect } from './fixtures/cdp-fixtures';
+import { CsvRow, CsvStreamParser, detectDelimiter, parseCsv } from '../src/utils/csv-parser';
+
+/** parseCsv, CsvStreamParser and detectDelimiter: quoting, line endings, BOM, raw row text, delimiters and chunk boundaries */
+const PARSE_CASES: { name: string; input: string; fields: string[][]; lineNumbers?: number[] }[] = [
+  { name: 'plain rows', input: 'a,b\n1,2', fields: [['a', 'b'], ['1', '2']] },
+  { name: 'delimiter inside quotes', input: '"ชื่อ, สกุล",ห้อง\n"สมชาย, ใจดี",1', fields: [['ชื่อ, สกุล', 'ห้อง'], ['สมชาย, ใจดี', '1']] },
+  { name: 'doubled quotes', input: 'note\n"say ""hi"""', fields: [['note'], ['say "hi"']] },
+  { name: 'line break inside quotes', input: 'a,b\n"line 1\nline 2",x\ny,z', fields: [['a', 'b'], ['line 1\nline 2', 'x'], ['y', 'z']], lineNumbers: [1, 2, 4] },
+  { name: 'CRLF line endings', input: 'a,b\r\n1,2\r\n', fields: [['a', 'b'], ['1', '2']] },
+  { name: 'CR line endings', input: 'a,b\r1,2', fields: [['a', 'b'], ['1', '2']] },
+  { name: 'UTF-8 BOM', input: '﻿เลขประจำตัวประชาชน\n1368400145149', fields: [['เลขประจำตัวประชาชน'], ['1368400145149']] },
+  { name: 'blank lines skipped', input: 'a\n\n1\n\n', fields: [['a'], ['1']], lineNumbers: [1, 3] },
+  { name: 'empty trailing cells', input: 'a,b,c\n1,,', fields: [['a', 'b', 'c'], ['1', '', '']] },
+  { name: 'tab delimiter detected', input: 'a\tb\n1,5\t2', fields: [['a', 'b'], ['1,5', '2']] },
+  { name: 'semicolon delimiter detected', input: 'a;b\n1;2', fields: [['a', 'b'], ['1', '2']] }
+];
+
+for (const { name, input, fields, lineNumbers } of PARSE_CASES) {
+  test(`parseCsv: ${name}`, () => {
+    const rows = parseCsv(input);
+    expect(rows.map(row => row.fields)).toEqual(fields);
+    if (lineNumbers) {
+      expect(rows.map(row => row.lineNumber)).toEqual(lineNumbers);
+    }
+  });
+}
+
+test('parseCsv: raw keeps the source text of each row', () => {
+  const rows = parseCsv('a,b\r\n"x\r\ny",2\r\n');
+  expect(rows.map(row => row.raw)).toEqual(['a,b', '"x\r\ny",2']);
+});
+
+test('parseCsv: an unterminated quote makes the rest of the input a row with an error', () => {
+  const rows = parseCsv('a,b\n1,2\n"open,1\n3,4');
+  expect(rows.map(row => row.error)).toEqual([undefined, undefined, 'Unterminated quoted field starting on line 3']);
+  expect(rows[2]).toMatchObject({ lineNumber: 3, raw: '"open,1\n3,4' });
+});
+
+test('parseCsv: an unterminated quote is an error in strict mode', () => {
+  expect(() => parseCsv('a,b\n"open,1', { strict: true })).toThrow('Unterminated quoted field starting on line 2');
+});
+
+test('detectDelimiter ignores delimiters inside quotes', () => {
+  expect(detectDelimiter('"a;b;c",d\n1,2')).toBe(',');
+  expect(detectDelimiter('single column')).toBe(',');
+});
+
+/** Feeds the text to a stream parser in pieces of the given sizes, repeating the last one. */
+function parseInChunks(input: string, sizes: number[]): CsvRow[] {
+  const parser = new CsvStreamParser();
+  const rows: CsvRow[] = [];
+  let offset = 0;
+  for (let i = 0; offset < input.length; i++) {
+    const size = sizes[Math.min(i, sizes.length - 1)];
+    rows.push(...parser.write(input.slice(offset, offset + size)));
+    offset += size;
+  }
+  return [...rows, ...parser.end()];
+}
+
+test('CsvStreamParser: every chunk boundary gives the same rows', () => {
+  // Boundaries fall after the BOM, between CR and LF, and between doubled quotes
+  const input = '﻿name,note\r\n"สมชาย ""ต้น""","a\r\nb"\r\nสมหญิง,\r\n';
+  const expected = parseCsv(input);
+  expect(expected.map(row => row.fields)).toEqual([['name', 'note'], ['สมชาย "ต้น"', 'a\r\nb'], ['สมหญิง', '']]);
+
+  expect(parseInChunks(input, [1])).toEqual(expected);
+  for (let split = 1; split < input.length; split++) {
+    expect(parseInChunks(input, [split, input.length]), `split at ${split}`).toEqual(expected);
+  }
+});
@@ -0,0 +1,32 @@
+import { test, expect } from './fixtures/cdp-fixtures';
+import { parseCsv } from '../src/utils/csv-parser';
+import { CsvCell, formatCsvCell, stringifyCsv } from '../src/utils/csv-writer';
+
+/** formatCsvCell quoting and stringifyCsv options, read back through parseCsv */
+const FORMAT_CASES: { cell: CsvCell; expected: string }[] = [
+  { cell: 'สมชาย', expected: 'สมชาย' },
+  { cell: 'a,b', expected: '"a,b"' },
+  { cell: 'a;b', expected: '"a;b"' },
+  { cell: 'a\tb', expected: '"a\tb"' },
+  { cell: 'say "hi"', expected: '"say ""hi"""' },
+  { cell: 'line 1\nline 2', expected: '"line 1\nline 2"' },
+  { cell: 40.5, expected: '40.5' },
+  { cell: false, expected: 'false' },
+  { cell: null, expected: '' },
+  { cell: undefined, expected: '' }
+];
+
+for (const { cell, expected } of FORMAT_CASES) {
+  test(`formatCsvCell: ${JSON.stringify(cell)}`, () => {
+    expect(formatCsvCell(cell)).toBe(expected);
+  });
+}
+
+test('stringifyCsv: BOM, line endings and a round trip through parseCsv', () => {
+  const rows = [['ชื่อ', 'หมายเหตุ'], ['สมชาย', 'a,"b"\nc'], ['สมหญิง', '']];
+  const text = stringifyCsv(rows, { bom: true });
+  expect(text.startsWith('﻿ชื่อ,หมายเหตุ\r\n')).toBe(true);
+  expect(parseCsv(text).map(row => row.fields)).toEqual(rows);
+
+  expect(stringifyCsv([['a', 'b'], ['1', '2']], { lineEnding: '\n', delimiter: ';' })).toBe('a;b\n1;2');
+});
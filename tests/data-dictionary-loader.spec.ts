@@ -0,0 +1,98 @@
+import { test, expect } from './fixtures/cdp-fixtures';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_DATA_DICTIONARY_PATH, readDataDictionaryFile } from '../src/utils/data-dictionary-loader';
+
+/** readDataDictionaryFile: the bundled dictionary, `extends` merging and the schema errors it reports */
+let directory: string;
+let bundled: string;
+
+test.beforeAll(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'data-dictionary-'));
+  bundled = path.relative(directory, DEFAULT_DATA_DICTIONARY_PATH);
+});
+
+test.afterAll(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+function writeDictionary(name: string, content: object): string {
+  const filePath = path.join(directory, `${name}.json`);
+  fs.writeFileSync(filePath, JSON.stringify(content));
+  return filePath;
+}
+
+const FIELD = { thaiName: 'ห้อง', englishName: 'Room', type: 'string', required: false, description: 'Room', columnIndex: 0 };
+
+test('the bundled dictionary loads', () => {
+  const dictionary = readDataDictionaryFile(DEFAULT_DATA_DICTIONARY_PATH);
+  expect(dictionary.fields.studentCid.format).toBe('thaiNationalId');
+  expect(Object.keys(dictionary.profiles)).toContain('set-health');
+});
+
+test('extends merges fields property by property and replaces profiles by name', () => {
+  const dictionary = readDataDictionaryFile(writeDictionary('school', {
+    extends: bundled,
+    fields: { weight: { description: 'Weight in kg, one decimal' } },
+    profiles: { 'set-health': { description: 'Weight only', fields: ['studentCid', 'weight'], requiredFields: ['studentCid'] } }
+  }));
+  expect(dictionary.fields.weight).toMatchObject({ thaiName: 'น้ำหนัก', type: 'number', description: 'Weight in kg, one decimal' });
+  expect(dictionary.profiles['set-health'].fields).toEqual(['studentCid', 'weight']);
+  expect(Object.keys(dictionary.profiles)).toContain('check-by-cid');
+  expect(dictionary.normalization.default.length).toBeGreaterThan(0);
+});
+
+test('circular extends is an error', () => {
+  writeDictionary('loop-a', { extends: 'loop-b.json' });
+  writeDictionary('loop-b', { extends: 'loop-a.json' });
+  expect(() => readDataDictionaryFile(path.join(directory, 'loop-a.json'))).toThrow('Circular extends');
+});
+
+const ERROR_CASES: { name: string; content: object; error: string }[] = [
+  { name: 'unknown section', content: { fields: { room: FIELD }, field: {} }, error: 'unknown section "field"' },
+  { name: 'no fields', content: { profiles: {} }, error: '"fields" is missing' },
+  { name: 'extends that is not a path', content: { extends: 1, fields: {} }, error: '"extends" must be a file path' },
+  { name: 'unknown field type', content: { fields: { room: { ...FIELD, type: 'text' } } }, error: 'fields.room.type must be one of string, number, date' },
+  { name: 'required that is not a boolean', content: { fields: { room: { ...FIELD, required: 'yes' } } }, error: 'fields.room.required must be true or false' },
+  { name: 'misspelt property', content: { fields: { room: { ...FIELD, requried: true } } }, error: 'fields.room has unknown property "requried"' },
+  { name: 'unknown format', content: { fields: { room: { ...FIELD, format: 'postcode' } } }, error: 'fields.room.format must be one of' },
+  {
+    name: 'shared column index',
+    content: { fields: { room: FIELD, grade: { ...FIELD, thaiName: 'ชั้น', englishName: 'Grade' } } },
+    error: 'fields.grade.columnIndex 0 is already used by room'
+  },
+  {
+    name: 'shared header name',
+    content: { fields: { room: FIELD, classroom: { ...FIELD, englishName: 'Classroom', columnIndex: 1 } } },
+    error: 'fields.classroom: header name "ห้อง" is also used by room'
+  },
+  {
+    name: 'invalid pattern',
+    content: { fields: { room: { ...FIELD, validation: { pattern: '([0-9]', message: 'Room must be a number' } } } },
+    error: 'fields.room.validation.pattern is not a valid regular expression'
+  },
+  { name: 'repeated allowed value', content: { fields: { room: { ...FIELD, allowedValues: ['1', '2', '1'] } } }, error: 'fields.room.allowedValues lists "1" more than once' },
+  {
+    name: 'profile with an unknown field',
+    content: { fields: { room: FIELD }, profiles: { move: { description: 'Move', fields: ['room', 'grade'], requiredFields: [] } } },
+    error: 'profiles.move.fields names unknown field "grade"'
+  },
+  {
+    name: 'required field outside the profile',
+    content: { fields: { room: FIELD, grade: { ...FIELD, thaiName: 'ชั้น', englishName: 'Grade', columnIndex: 1 } }, profiles: { move: { description: 'Move', fields: ['room'], requiredFields: ['grade'] } } },
+    error: 'profiles.move.requiredFields lists grade, which is not in profiles.move.fields'
+  },
+  { name: 'schema without fields', content: { fields: { room: FIELD }, schemas: { empty: { description: 'Empty', fields: [] } } }, error: 'schemas.empty.fields must name at least one field' },
+  { name: 'unknown normalization step', content: { fields: { room: FIELD }, normalization: { fields: { room: ['upperCase'] } } }, error: 'normalization.fields.room has unknown step "upperCase"' }
+];
+
+for (const { name, content, error } of ERROR_CASES) {
+  test(`rejects a dictionary with ${name}`, () => {
+    const filePath = writeDictionary(name.replace(/\s+/g, '-'), content);
+    expect(() => readDataDictionaryFile(filePath)).toThrow(error);
+  });
+}
+
+test('a school dictionary is checked after merging with its base', () => {
+  const filePath = writeDictionary('school-broken', { extends: bundled, fields: { weight: { type: 'decimal' } } });
+  expect(() => readDataDictionaryFile(filePath)).toThrow('fields.weight.type must be one of string, number, date (found "decimal")');
+});
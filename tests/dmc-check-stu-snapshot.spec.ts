@@ -0,0 +1,81 @@
+import { test, expect } from './fixtures/cdp-fixtures';
+import 'dotenv/config';
+import { CsvDataHandler } from '../src/utils/csv-data-handler';
+import { writeCsvFile } from '../src/utils/csv-writer';
+import { latestDailySnapshot, loadDailySnapshot, StudentRoster } from '../src/utils/daily-student-list';
+import { logSchoolBatchPlan, logSchoolSummaries, planSchoolBatch, summarizeBySchool } from '../src/utils/school-batch';
+import { streamStudentFile, studentFilterFromEnv } from '../src/utils/student-file-loader';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** Looks each student of the input file up in the latest saved daily list of their school (npm run test:download-students) */
+test('Check student existence against the daily list', async () => {
+  const csvFileName = process.env.CSV_FILE_NAME || 'stu.csv';
+  const csvFilePath = path.join(__dirname, '../data/', csvFileName);
+  test.skip(!fs.existsSync(csvFilePath), `${csvFilePath} not found; set CSV_FILE_NAME`);
+
+  const students = streamStudentFile(csvFilePath, { requiredFields: [], validate: false, sheet: process.env.XLSX_SHEET, filter: studentFilterFromEnv() });
+  const plan = planSchoolBatch(students);
+  const csvHandler = CsvDataHandler.getInstance();
+
+  // Each school's list is loaded when its first student comes up; null when none is saved
+  const rosters = new Map<string, { roster: StudentRoster; date: string } | null>();
+  const data: { schoolCode: string; studentCid: string; studentId: string; status: string; listDate: string }[] = [];
+  for await (const { school, record: student } of plan.items) {
+    if (!rosters.has(school.schoolCode)) {
+      const snapshot = latestDailySnapshot(school.schoolCode);
+      if (snapshot) {
+        const { records, report } = await loadDailySnapshot(snapshot);
+        csvHandler.logLoadReport(report);
+        const roster = new StudentRoster(records);
+        console.log(`📦 School ${school.schoolCode}: ${roster.records.length} students in the list of ${snapshot.date}`);
+        rosters.set(school.schoolCode, { roster, date: snapshot.date });
+      } else {
+        console.warn(`⚠️  No saved daily list for school ${school.schoolCode}; run npm run test:download-students first`);
+        rosters.set(school.schoolCode, null);
+      }
+    }
+
+    const list = rosters.get(school.schoolCode);
+    if (!list) {
+      data.push({ ...identify(student), schoolCode: school.schoolCode, status: 'no_list', listDate: '' });
+      continue;
+    }
+    const found = student.studentCid.trim()
+      ? list.roster.findByCid(student.studentCid)
+      : list.roster.findByStudentId(school.schoolCode, student.studentId);
+    data.push({ ...identify(student), schoolCode: school.schoolCode, status: found ? 'found' : 'not_found', listDate: list.date });
+  }
+  logSchoolBatchPlan(plan);
+
+  // Ensure output directory exists
+  const outputDir = path.join(__dirname, '../output');
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const filename = path.join(outputDir, `student_check_list_${timestamp}.csv`);
+  writeCsvFile(filename, [
+    ['SchoolCode', 'StudentCid', 'StudentId', 'Status', 'ListDate'],
+    ...data.map(row => [row.schoolCode, row.studentCid, row.studentId, row.status, row.listDate])
+  ]);
+
+  const count = (status: string) => data.filter(row => row.status === status).length;
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 DAILY LIST CHECK SUMMARY');
+  console.log('='.repeat(50));
+  console.log(`👥 Total students checked: ${data.length}`);
+  console.log(`✅ In the daily list: ${count('found')}`);
+  console.log(`❌ Not in the daily list: ${count('not_found')}`);
+  console.log(`📭 School has no saved list: ${count('no_list')}`);
+  logSchoolSummaries(summarizeBySchool(data, plan, row => row.status === 'found'));
+  console.log(`💾 Results saved to: ${filename}`);
+  console.log('='.repeat(50));
+
+  expect(data.length).toBe(plan.runs.reduce((sum, run) => sum + run.records, 0));
+});
+
+function identify(student: { studentCid: string; studentId: string }) {
+  return { studentCid: student.studentCid, studentId: student.studentId };
+}
@@ -0,0 +1,59 @@
+import { test, expect } from './fixtures/cdp-fixtures';
+import 'dotenv/config';
+import { CsvDataHandler } from '../src/utils/csv-data-handler';
+import { DataQualityChecker, writeDataQualityReport } from '../src/utils/data-quality-checker';
+import { loadStudentFileWithReport } from '../src/utils/student-file-loader';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** Checks the student file named by CSV_FILE_NAME before any upload and writes Markdown and JSON reports to output/ */
+test('Check student file data quality', async () => {
+  const csvHandler = CsvDataHandler.getInstance();
+  const csvFileName = process.env.CSV_FILE_NAME || 'stu.csv';
+  const csvFilePath = path.join(__dirname, '../data/', csvFileName);
+  test.skip(!fs.existsSync(csvFilePath), `${csvFilePath} not found; set CSV_FILE_NAME`);
+
+  // Load every row the file has, whatever its layout
+  const { records, report: loadReport } = await loadStudentFileWithReport(csvFilePath, {
+    requiredFields: [],
+    validate: false,
+    sheet: process.env.XLSX_SHEET
+  });
+  csvHandler.logLoadReport(loadReport);
+  console.log(`📁 Loaded ${records.length} students from ${csvFileName}`);
+
+  // Only check fields the file actually has: the columns its header was mapped to
+  const checker = new DataQualityChecker(csvHandler.getDataDictionary());
+  const report = checker.check(records, {
+    source: csvFileName,
+    educationYear: process.env.EDUCATION_YEAR,
+    fields: loadReport.fields
+  });
+
+  // Ensure output directory exists
+  const outputDir = path.join(__dirname, '../output');
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const { markdownPath, jsonPath } = writeDataQualityReport(report, path.join(outputDir, `data_quality_${timestamp}`));
+
+  console.log('\n' + '='.repeat(60));
+  console.log('🧹 DATA QUALITY SUMMARY');
+  console.log('='.repeat(60));
+  console.log(`👥 Records checked: ${report.totalRecords}`);
+  console.log(`🪪 Duplicate national IDs: ${report.counts.duplicateCid}`);
+  console.log(`🏫 Same student in several rooms: ${report.counts.multipleRooms}`);
+  console.log(`🔢 Duplicate student IDs: ${report.counts.duplicateStudentId}`);
+  console.log(`⚖️  Weight outliers: ${report.counts.weightOutlier}`);
+  console.log(`📏 Height outliers: ${report.counts.heightOutlier}`);
+  console.log(`❓ Missing required values: ${report.counts.missingRequired}`);
+  console.log(`🚫 Values outside allowed list: ${report.counts.notAllowed}`);
+  console.log(`⚠️  Other invalid values: ${report.counts.invalidValue}`);
+  console.log(`📄 Report saved to: ${markdownPath}`);
+  console.log(`📄 JSON saved to: ${jsonPath}`);
+  console.log('='.repeat(60));
+
+  expect(report.totalRecords).toBe(records.length);
+});
@@ -0,0 +1,62 @@
+import { test, expect } from './fixtures/cdp-fixtures';
+import 'dotenv/config';
+import { PORTAL_TITLE, PortalHome } from '../src/pages/portal-home';
+import { CsvDataHandler } from '../src/utils/csv-data-handler';
+import { downloadDailyStudentList, loadDailySnapshot } from '../src/utils/daily-student-list';
+import { loadSchoolSettings, SchoolSettings, switchSchoolSession } from '../src/utils/school-batch';
+
+/**
+ * Downloads the portal's daily student list for each school and stores it as a dated
+ * snapshot in data/snapshots/<schoolCode>/, for reconciliation and offline existence checks
+ */
+test('CDP: Download the daily student list', async ({ cdpPage }) => {
+  test.setTimeout(600000); // 10 minutes
+
+  // Navigate to the DMC portal
+  const dmcPortalUrl = process.env.DMC_PORTAL_URL || 'https://portal.bopp-obec.info/obec68';
+  const home = new PortalHome(cdpPage, dmcPortalUrl);
+  await home.goto();
+  await expect(cdpPage).toHaveTitle(PORTAL_TITLE);
+
+  // Check if user is already logged in
+  if (await home.isLoggedIn()) {
+    console.log('\n🟢 User is already logged in');
+
+    // Every school of the schools file, or the current session's SCHOOL_CODE
+    const educationYear = process.env.EDUCATION_YEAR || '2568';
+    const configured = loadSchoolSettings();
+    const schools: SchoolSettings[] = configured.length > 0
+      ? configured.filter(school => configured.length === 1 || school.uid)
+      : [{ schoolCode: process.env.SCHOOL_CODE || '', educationYear }];
+    if (schools.some(school => school.schoolCode === '')) {
+      console.log('⚠️  SCHOOL_CODE is not set; it names the folder the list is saved in');
+      return;
+    }
+
+    const csvHandler = CsvDataHandler.getInstance();
+    let saved = 0;
+    for (const school of schools) {
+      try {
+        if (schools.length > 1) {
+          await switchSchoolSession(cdpPage, dmcPortalUrl, school);
+        }
+        const snapshot = await downloadDailyStudentList(cdpPage, dmcPortalUrl, {
+          schoolCode: school.schoolCode,
+          force: process.env.DAILY_LIST_FORCE === 'true'
+        });
+        const { records, report } = await loadDailySnapshot(snapshot);
+        csvHandler.logLoadReport(report);
+        console.log(`👥 ${school.schoolCode}: ${records.length} students in the list of ${snapshot.date}`);
+        saved++;
+      } catch (error) {
+        console.error(`❌ ${school.schoolCode}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    console.log(`\n📦 Saved ${saved} of ${schools.length} school lists`);
+    expect(saved).toBe(schools.length);
+  } else {
+    // end session if user is not logged in
+    console.log('🔒 User is not logged in, ending session');
+  }
+});
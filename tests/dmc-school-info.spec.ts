@@ -1,5 +1,7 @@
 import { test, expect } from './fixtures/cdp-fixtures';
 import 'dotenv/config';
+import { PORTAL_TITLE, PortalHome } from '../src/pages/portal-home';
+import { SchoolInfoPage } from '../src/pages/school-info-page';
 
 /**
  * Test suite for DMC (Data Management Center) login functionality
@@ -8,17 +10,16 @@ import 'dotenv/config';
 test('CDP: Go to school info page', async ({ cdpPage }) => {
   // Navigate to the DMC portal
   const dmcPortalUrl = process.env.DMC_PORTAL_URL || 'https://portal.bopp-obec.info/obec68';
-  await cdpPage.goto(`${dmcPortalUrl}/`);
-  await cdpPage.waitForLoadState('networkidle');
-  await expect(cdpPage).toHaveTitle(/ระบบจัดเก็บข้อมูลนักเรียนรายบุคคล Data Management Center/);
+  const home = new PortalHome(cdpPage, dmcPortalUrl);
+  await home.goto();
+  await expect(cdpPage).toHaveTitle(PORTAL_TITLE);
 
   // Check if user is already logged in
-  if (await cdpPage.getByRole('link', { name: '- ดาวน์โหลดรายชื่อนักเรียน (สร้างวันละครั้ง เวลา 2:00 น.)' }).isVisible()) {
+  if (await home.isLoggedIn()) {
     console.log('User is already logged in');
-    await cdpPage.getByText('โรงเรียน', { exact: true }).click();
-    await cdpPage.getByRole('link', { name: 'ข้อมูลพื้นฐานโรงเรียน' }).click();
-    await cdpPage.waitForLoadState('networkidle');
-    await expect(cdpPage.getByRole('heading', { name: 'ปรับปรุงข้อมูลพื้นฐานโรงเรียน' })).toBeVisible();
+    const schoolInfo = new SchoolInfoPage(cdpPage, dmcPortalUrl);
+    await schoolInfo.open();
+    await expect(schoolInfo.heading).toBeVisible();
   } else {
     // end session if user is not logged in
     console.log('User is not logged in, ending session');
@@ -1,7 +1,11 @@
 import { test, expect } from './fixtures/cdp-fixtures';
-import { CsvDataHandler, StudentRecord } from '../src/utils/csv-data-handler';
+import { PORTAL_TITLE, PortalHome } from '../src/pages/portal-home';
+import { StudentEditPage } from '../src/pages/student-edit-page';
+import { BatchFieldChange, BatchRunner, isFieldChanged } from '../src/utils/batch-runner';
+import { StudentRecord } from '../src/utils/csv-data-handler';
+import { planSchoolBatch } from '../src/utils/school-batch';
+import { streamStudentFile, studentFilterFromEnv } from '../src/utils/student-file-loader';
 import * as path from 'path';
-import * as fs from 'fs';
 import 'dotenv/config';
 
 /**
@@ -13,37 +17,28 @@ test('CDP: Update scout and red cross data from CSV', async ({ cdpPage }) => {
   
   // Environment configuration
   const dmcPortalUrl = process.env.DMC_PORTAL_URL || 'https://portal.bopp-obec.info/obec68';
-  const schoolCode = process.env.SCHOOL_CODE || '36022006';
-  const educationYear = process.env.EDUCATION_YEAR || '2568';
   const csvFileName = process.env.CSV_FILE_NAME || 'data.csv';
   
   // Navigation to portal
-  await cdpPage.goto(`${dmcPortalUrl}/`);
-  await cdpPage.waitForLoadState('networkidle');
-  await expect(cdpPage).toHaveTitle(/ระบบจัดเก็บข้อมูลนักเรียนรายบุคคล Data Management Center/);
+  const home = new PortalHome(cdpPage, dmcPortalUrl);
+  await home.goto();
+  await expect(cdpPage).toHaveTitle(PORTAL_TITLE);
 
   // Check login status using established pattern
-  if (await cdpPage.getByRole('link', { name: '- ดาวน์โหลดรายชื่อนักเรียน (สร้างวันละครั้ง เวลา 2:00 น.)' }).isVisible()) {
+  if (await home.isLoggedIn()) {
     console.log('\n🟢 User is already logged in');
     
-    // Load CSV data using established pattern
-    const csvHandler = CsvDataHandler.getInstance();
+    // Stream CSV data; FILTER_SCHOOL_CODE/FILTER_GRADE/FILTER_ROOM narrow the run
     const csvFilePath = path.join(__dirname, '../data/', csvFileName);
-    
-    let studentRecords: StudentRecord[];
-    try {
-      studentRecords = csvHandler.loadStudentData(csvFilePath);
-      console.log(`📁 Loaded ${studentRecords.length} students from ${csvFileName}`);
-    } catch (error) {
-      console.error('❌ Error loading CSV file:', error.message);
-      return;
-    }
+    const students = streamStudentFile(csvFilePath, {
+      profile: 'set-scout',
+      strict: process.env.CSV_STRICT === 'true',
+      sheet: process.env.XLSX_SHEET,
+      filter: studentFilterFromEnv()
+    });
 
-    // Filter students by school code
-    const filteredStudents = studentRecords.filter(student => 
-      !schoolCode || student.schoolCode === schoolCode
-    );
-    console.log(`🎯 Processing ${filteredStudents.length} students for school ${schoolCode}`);
+    // Group by school; records of schools that cannot be processed are reported, not dropped
+    const plan = planSchoolBatch(students);
 
     // Data mapping based on frontend form options
     const scoutMapping: { [key: string]: string } = {
@@ -61,213 +56,86 @@ test('CDP: Update scout and red cross data from CSV', async ({ cdpPage }) => {
       '-': '',
       '': ''
     };
-    
-    // Results tracking
-    const results: Array<{
-      studentId: string;
-      studentName: string;
-      status: string;
-      scoutUpdate: string;
-      redCrossUpdate: string;
-      processingTime: number;
-      error?: string;
-    }> = [];
-    
-    const startTime = Date.now();
-    let successCount = 0;
-    let errorCount = 0;
-    let skippedCount = 0;
-    
-    // Process each student with progress tracking
-    for (let i = 0; i < filteredStudents.length; i++) {
-      const student = filteredStudents[i];
-      const itemStartTime = Date.now();
-      
-      // Progress tracking using established pattern
-      const progress = `[${(i + 1).toString().padStart(filteredStudents.length.toString().length, ' ')}/${filteredStudents.length}]`;
-      const percentage = `(${((i + 1) / filteredStudents.length * 100).toFixed(1)}%)`;
-      
-      try {
-        // Validate student data
-        const validation = csvHandler.validateStudentRecord(student);
-        if (!validation.isValid) {
-          console.log(`${progress} ${percentage} ⚠️ Skipping ${student.studentId} - ${student.firstName} ${student.lastName} - validation errors:`, validation.errors);
-          
-          results.push({
-            studentId: student.studentId,
-            studentName: `${student.firstName} ${student.lastName}`,
-            status: 'skipped',
-            scoutUpdate: 'N/A',
-            redCrossUpdate: 'N/A',
-            processingTime: Date.now() - itemStartTime,
-            error: validation.errors.join(', ')
-          });
-          
-          skippedCount++;
-          continue;
-        }
 
-        // Get mapped values
-        const scoutValue = scoutMapping[student.scoutId] || '';
-        const redCrossValue = redCrossMapping[student.redcrossyouthId] || '';
-        
-        console.log(`${progress} ${percentage} 🔄 Processing: ${student.studentId} - ${student.firstName} ${student.lastName}`);
-        console.log(`  Scout: "${student.scoutId}" -> ${scoutValue || 'skip'}`);
-        console.log(`  Red Cross: "${student.redcrossyouthId}" -> ${redCrossValue || 'skip'}`);
-        
-        // Navigate to student edit page using URL pattern
-        const studentUrl = `${dmcPortalUrl}/student/${student.studentId}:${schoolCode}/edit`;
-        
-        try {
-          await cdpPage.goto(studentUrl, { timeout: 30000, waitUntil: 'domcontentloaded' });
-          await cdpPage.waitForLoadState('networkidle');
-          
-          // Verify we're on the correct student page
-          await expect(cdpPage.getByRole('heading', { name: 'ข้อมูลเบื้องต้น' })).toBeVisible({ timeout: 5000 });
-          
-          // Navigate to scout/red cross tab
-          await cdpPage.getByRole('link', { name: 'ลูกเสือ,เนตรนารี,ยุวกาชาด' }).click();
-          await cdpPage.waitForLoadState('networkidle');
-          
-          // Verify we're on the scout tab
-          await expect(cdpPage.locator('#tab-scout')).toBeVisible({ timeout: 5000 });
-          
-          let scoutUpdated = false;
-          let redCrossUpdated = false;
-          
-          // Update scout information
-          if (scoutValue !== '') {
-            await cdpPage.locator('#scoutId-select').selectOption(scoutValue);
-            scoutUpdated = true;
-            console.log(`  ✅ Scout field updated`);
-          }
-          
-          // Update red cross information  
-          if (redCrossValue !== '') {
-            await cdpPage.locator('#redcrossyouthId-select').selectOption(redCrossValue);
-            redCrossUpdated = true;
-            console.log(`  ✅ Red Cross field updated`);
-          }
-          
-          // Save changes if any were made
-          if (scoutUpdated || redCrossUpdated) {
-            const saveButton = cdpPage.getByRole('button', { name: 'บันทึก' });
-            if (await saveButton.isVisible()) {
-              await saveButton.click();
-              await cdpPage.waitForLoadState('networkidle');
-              console.log(`  💾 Changes saved successfully`);
-              
-              results.push({
-                studentId: student.studentId,
-                studentName: `${student.firstName} ${student.lastName}`,
-                status: 'success',
-                scoutUpdate: scoutUpdated ? 'updated' : 'no change',
-                redCrossUpdate: redCrossUpdated ? 'updated' : 'no change',
-                processingTime: Date.now() - itemStartTime
-              });
-              
-              successCount++;
-            } else {
-              throw new Error('Save button not found');
-            }
-          } else {
-            console.log(`  ⚠️ No changes needed, skipping save`);
-            
-            results.push({
-              studentId: student.studentId,
-              studentName: `${student.firstName} ${student.lastName}`,
-              status: 'no_changes',
-              scoutUpdate: 'no change needed',
-              redCrossUpdate: 'no change needed',
-              processingTime: Date.now() - itemStartTime
-            });
-          }
-          
-        } catch (error) {
-          console.error(`  ❌ Error updating ${student.studentId} - ${student.firstName} ${student.lastName}: ${error.message}`);
-          
-          // Recovery attempt using established pattern
-          try {
-            console.log('  🔄 Attempting to recover...');
-            await cdpPage.goto(`${dmcPortalUrl}/`, { timeout: 10000 });
-            await cdpPage.waitForTimeout(2000);
-            console.log('  ✅ Recovery successful');
-          } catch (recoveryError) {
-            console.error('  ❌ Failed to recover');
-          }
-          
-          results.push({
-            studentId: student.studentId,
-            studentName: `${student.firstName} ${student.lastName}`,
-            status: 'error',
-            scoutUpdate: 'failed',
-            redCrossUpdate: 'failed',
-            processingTime: Date.now() - itemStartTime,
-            error: error.message
-          });
-          
-          errorCount++;
-        }
-        
-        // Rate limiting between requests
-        if (i < filteredStudents.length - 1) {
-          await cdpPage.waitForTimeout(1000);
-        }
-        
-      } catch (error) {
-        console.error(`${progress} ${percentage} ❌ Error processing ${student.studentId} - ${student.firstName} ${student.lastName}: ${error.message}`);
-        
-        results.push({
-          studentId: student.studentId,
-          studentName: `${student.firstName} ${student.lastName}`,
-          status: 'error',
-          scoutUpdate: 'failed',
-          redCrossUpdate: 'failed',
-          processingTime: Date.now() - itemStartTime,
-          error: error.message
-        });
-        
-        errorCount++;
+    const runner = new BatchRunner<StudentRecord, { scoutUpdate: string; redCrossUpdate: string }>({
+      page: cdpPage,
+      dmcPortalUrl,
+      title: 'SCOUT AND RED CROSS UPDATE',
+      icon: '⚜️',
+      outputPrefix: 'scout_redcross_updates',
+      describe: student => `${student.studentId} - ${student.firstName} ${student.lastName}`,
+      columns: [
+        { header: 'StudentID', value: result => result.record.studentId },
+        { header: 'StudentName', value: result => `${result.record.firstName} ${result.record.lastName}` },
+        { header: 'ScoutUpdate', value: result => result.data ? result.data.scoutUpdate : result.status === 'invalid' ? 'N/A' : 'failed' },
+        { header: 'RedCrossUpdate', value: result => result.data ? result.data.redCrossUpdate : result.status === 'invalid' ? 'N/A' : 'failed' }
+      ],
+      // Validate student data
+      validate: (student, csvHandler) => csvHandler.validateStudentRecord(student, { profile: 'set-scout' }),
+      successStatuses: ['success', 'no_changes'],
+      statusLabels: { no_changes: 'No changes needed' },
+      delayMs: 1000,
+      checkpoint: {
+        sourceFile: csvFilePath,
+        key: student => student.studentId,
+        input: student => [student.scoutId, student.redcrossyouthId]
       }
-    }
-    
-    const totalTime = Date.now() - startTime;
-    
-    // Save results to CSV using established pattern
-    try {
-      const outputDir = path.join(__dirname, '../output');
-      if (!fs.existsSync(outputDir)) {
-        fs.mkdirSync(outputDir, { recursive: true });
+    });
+
+    const editPage = new StudentEditPage(cdpPage, dmcPortalUrl);
+    await runner.run(plan, async (student, { school, dryRun }) => {
+      // Get mapped values
+      const scoutValue = scoutMapping[student.scoutId] || '';
+      const redCrossValue = redCrossMapping[student.redcrossyouthId] || '';
+      console.log(`  Scout: "${student.scoutId}" -> ${scoutValue || 'skip'}`);
+      console.log(`  Red Cross: "${student.redcrossyouthId}" -> ${redCrossValue || 'skip'}`);
+      if (scoutValue === '' && redCrossValue === '') {
+        return { status: 'no_changes', data: { scoutUpdate: 'no change needed', redCrossUpdate: 'no change needed' } };
       }
-      
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const csvHeader = 'StudentID,StudentName,Status,ScoutUpdate,RedCrossUpdate,ProcessingTime(ms),Error\n';
-      const csvRows = results.map(row => 
-        `${row.studentId},"${row.studentName}",${row.status},${row.scoutUpdate},${row.redCrossUpdate},${row.processingTime},"${row.error || ''}"`
-      ).join('\n');
-      const csvContent = csvHeader + csvRows;
-      
-      const filename = path.join(outputDir, `scout_redcross_updates_${timestamp}.csv`);
-      fs.writeFileSync(filename, csvContent, 'utf-8');
-      console.log(`📄 Results saved to: ${filename}`);
-    } catch (error) {
-      console.error('❌ Failed to save results:', error.message);
-    }
-    
-    // Summary statistics using established pattern
-    const avgProcessingTime = results.reduce((sum, item) => sum + item.processingTime, 0) / results.length;
-    
-    console.log('\n' + '='.repeat(50));
-    console.log('📊 EXECUTION SUMMARY');
-    console.log('='.repeat(50));
-    console.log(`⏱️  Total execution time: ${(totalTime / 1000).toFixed(2)}s`);
-    console.log(`📈 Average processing time: ${avgProcessingTime.toFixed(0)}ms`);
-    console.log(`👥 Total processed: ${results.length}`);
-    console.log(`✅ Successful: ${successCount}`);
-    console.log(`⚠️  Skipped: ${skippedCount}`);
-    console.log(`❌ Errors: ${errorCount}`);
-    console.log(`📊 Success rate: ${((successCount / results.length) * 100).toFixed(2)}%`);
-    console.log('='.repeat(50));
+
+      // Open the student's edit page and its scout/red cross tab
+      if (!(await editPage.open(student.studentId, school.schoolCode))) {
+        throw new Error('Student edit page not found');
+      }
+      await editPage.openTab('scout');
+
+      // Read the current selections; only those that differ are changed
+      const changes: BatchFieldChange[] = [];
+      if (scoutValue !== '') {
+        const current = await editPage.getScout();
+        changes.push({ field: 'scout', before: current ? current.label : null, after: await editPage.optionLabel(editPage.scoutSelect, scoutValue) });
+      }
+      if (redCrossValue !== '') {
+        const current = await editPage.getRedCross();
+        changes.push({ field: 'redCross', before: current ? current.label : null, after: await editPage.optionLabel(editPage.redCrossSelect, redCrossValue) });
+      }
+      if (dryRun) {
+        return { status: 'planned', changes };
+      }
+
+      const changed = new Set(changes.filter(isFieldChanged).map(change => change.field));
+      if (changed.size === 0) {
+        return { status: 'unchanged', changes, data: { scoutUpdate: 'already set', redCrossUpdate: 'already set' } };
+      }
+      if (changed.has('scout')) {
+        await editPage.setScout(scoutValue);
+      }
+      if (changed.has('redCross')) {
+        await editPage.setRedCross(redCrossValue);
+      }
+
+      if (!(await editPage.save())) {
+        throw new Error('Save button not found');
+      }
+      return {
+        status: 'success',
+        changes,
+        data: {
+          scoutUpdate: changed.has('scout') ? 'updated' : 'no change',
+          redCrossUpdate: changed.has('redCross') ? 'updated' : 'no change'
+        }
+      };
+    });
     
   } else {
     console.log('🔒 User is not logged in, ending session');
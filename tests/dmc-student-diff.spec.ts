@@ -0,0 +1,75 @@
+import { test, expect } from './fixtures/cdp-fixtures';
+import 'dotenv/config';
+import { CsvDataHandler, StudentRecord } from '../src/utils/csv-data-handler';
+import { diffStudents, writeStudentDiff } from '../src/utils/student-diff';
+import { loadStudentFileWithReport } from '../src/utils/student-file-loader';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** Diffs DIFF_BASE_FILE against CSV_FILE_NAME into output/, with a *_changed.csv of added and modified students for the update specs */
+test('Diff student snapshots', async () => {
+  const csvHandler = CsvDataHandler.getInstance();
+  const baseFileName = process.env.DIFF_BASE_FILE;
+  const csvFileName = process.env.CSV_FILE_NAME || 'stu.csv';
+  test.skip(!baseFileName, 'DIFF_BASE_FILE is not set: name the previous snapshot in data/ to compare against');
+  const dataPath = (fileName: string) => path.join(__dirname, '../data/', fileName);
+  for (const fileName of [baseFileName!, csvFileName]) {
+    test.skip(!fs.existsSync(dataPath(fileName)), `${dataPath(fileName)} not found`);
+  }
+
+  const load = async (fileName: string) => {
+    const { records, report } = await loadStudentFileWithReport(dataPath(fileName), {
+      requiredFields: [],
+      validate: false,
+      sheet: process.env.XLSX_SHEET
+    });
+    csvHandler.logLoadReport(report);
+    console.log(`📁 Loaded ${records.length} students from ${fileName}`);
+    return { records, schema: report.schema };
+  };
+  const previous = await load(baseFileName!);
+  const current = await load(csvFileName);
+
+  // Compare the fields of one operation, or else the fields both files have
+  const schemaFields = (schema: string | null): (keyof StudentRecord)[] | undefined =>
+    schema ? csvHandler.getSchemaProfile(schema).fields : undefined;
+  const previousFields = schemaFields(previous.schema);
+  const currentFields = schemaFields(current.schema);
+  const fields = process.env.DIFF_PROFILE
+    ? csvHandler.getValidationProfile(process.env.DIFF_PROFILE).fields
+    : previousFields && currentFields
+      ? currentFields.filter(field => previousFields.includes(field))
+      : previousFields || currentFields;
+
+  const diff = diffStudents(previous.records, current.records, {
+    fields,
+    previousSource: baseFileName,
+    currentSource: csvFileName
+  });
+
+  // Ensure output directory exists
+  const outputDir = path.join(__dirname, '../output');
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const { csvPath, jsonPath, changedPath } = writeStudentDiff(diff, path.join(outputDir, `student_diff_${timestamp}`), csvHandler);
+
+  console.log('\n' + '='.repeat(60));
+  console.log('🔀 STUDENT DIFF SUMMARY');
+  console.log('='.repeat(60));
+  console.log(`📂 ${baseFileName} → ${csvFileName}`);
+  console.log(`🔎 Fields compared: ${diff.fields.length}`);
+  console.log(`➕ Added: ${diff.counts.added}`);
+  console.log(`➖ Removed: ${diff.counts.removed}`);
+  console.log(`✏️  Modified: ${diff.counts.modified}`);
+  console.log(`⏸️  Unchanged: ${diff.counts.unchanged}`);
+  console.log(`📄 Changes saved to: ${csvPath}`);
+  console.log(`📄 JSON saved to: ${jsonPath}`);
+  console.log(`📄 Changed students saved to: ${changedPath}`);
+  console.log(`   Run an update with CSV_FILE_NAME=${path.relative(path.join(__dirname, '../data'), changedPath)}`);
+  console.log('='.repeat(60));
+
+  expect(diff.counts.added + diff.counts.modified + diff.counts.unchanged).toBe(current.records.length);
+});
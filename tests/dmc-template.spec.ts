@@ -1,21 +1,22 @@
 import { test, expect } from './fixtures/cdp-fixtures';
 import 'dotenv/config';
+import { PORTAL_TITLE, PortalHome } from '../src/pages/portal-home';
 
 /**
- * Test suite for DMC (Data Management Center) login functionality
- * This test verifies the complete login flow using ThaiD authentication
+ * Template for a new spec that works in an already logged-in portal session
+ * Copy it and add the steps after the login check; it does nothing when nobody is logged in
  */
-test('CDP: Go to school info page', async ({ cdpPage }) => {
+test('CDP: Template for a logged-in session', async ({ cdpPage }) => {
   // Navigate to the DMC portal
   const dmcPortalUrl = process.env.DMC_PORTAL_URL || 'https://portal.bopp-obec.info/obec68';
-  await cdpPage.goto(`${dmcPortalUrl}/`);
-  await cdpPage.waitForLoadState('networkidle');
-  await expect(cdpPage).toHaveTitle(/ระบบจัดเก็บข้อมูลนักเรียนรายบุคคล Data Management Center/);
+  const home = new PortalHome(cdpPage, dmcPortalUrl);
+  await home.goto();
+  await expect(cdpPage).toHaveTitle(PORTAL_TITLE);
 
   // Check if user is already logged in
-  if (await cdpPage.getByRole('link', { name: '- ดาวน์โหลดรายชื่อนักเรียน (สร้างวันละครั้ง เวลา 2:00 น.)' }).isVisible()) {
+  if (await home.isLoggedIn()) {
     console.log('User is already logged in');
-    // do login flow here
+    // add the steps of the new spec here
   } else {
     // end session if user is not logged in
     console.log('User is not logged in, ending session');
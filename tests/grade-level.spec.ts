@@ -0,0 +1,39 @@
+import { test, expect } from './fixtures/cdp-fixtures';
+import { expectedAgeForGrade, getGradeLabels, parseGrade, resolveLevelDtlCode } from '../src/utils/grade-level';
+
+/** Grade spellings to canonical labels, levelDtlCodes and typical ages */
+const GRADE_CASES: { grade: string; label: string | null; levelDtlCode: string | null; age: number | null }[] = [
+  { grade: 'อ.1', label: 'อ.1', levelDtlCode: '01', age: 3 },
+  { grade: 'อนุบาล 3', label: 'อ.3', levelDtlCode: '03', age: 5 },
+  { grade: 'K2', label: 'อ.2', levelDtlCode: '02', age: 4 },
+  { grade: 'ป.1', label: 'ป.1', levelDtlCode: '04', age: 6 },
+  { grade: 'ป.๖', label: 'ป.6', levelDtlCode: '09', age: 11 },
+  { grade: 'ประถมศึกษาปีที่ 4', label: 'ป.4', levelDtlCode: '07', age: 9 },
+  { grade: 'ม.1', label: 'ม.1', levelDtlCode: '10', age: 12 },
+  { grade: 'ม 2', label: 'ม.2', levelDtlCode: '11', age: 13 },
+  { grade: 'ม2', label: 'ม.2', levelDtlCode: '11', age: 13 },
+  { grade: 'M.2', label: 'ม.2', levelDtlCode: '11', age: 13 },
+  { grade: 'มัธยมศึกษาปีที่ 6', label: 'ม.6', levelDtlCode: '15', age: 17 },
+  { grade: 'ปวช.1', label: 'ปวช.1', levelDtlCode: '16', age: 15 },
+  { grade: 'ปวช. 3', label: 'ปวช.3', levelDtlCode: '18', age: 17 },
+  { grade: 'ป.7', label: null, levelDtlCode: null, age: null },
+  { grade: 'อ.4', label: null, levelDtlCode: null, age: null },
+  { grade: 'ม.0', label: null, levelDtlCode: null, age: null },
+  { grade: 'ปวส.1', label: null, levelDtlCode: null, age: null },
+  { grade: 'ม.', label: null, levelDtlCode: null, age: null },
+  { grade: '', label: null, levelDtlCode: null, age: null }
+];
+
+for (const { grade, label, levelDtlCode, age } of GRADE_CASES) {
+  test(`grade ${JSON.stringify(grade)}`, () => {
+    expect(parseGrade(grade)?.label ?? null).toBe(label);
+    expect(resolveLevelDtlCode(grade)).toBe(levelDtlCode);
+    expect(expectedAgeForGrade(grade)).toBe(age);
+  });
+}
+
+test('getGradeLabels lists every grade once, in levelDtlCode order', () => {
+  const labels = getGradeLabels();
+  expect(labels).toHaveLength(18);
+  expect(labels.map(resolveLevelDtlCode)).toEqual(Array.from({ length: 18 }, (_, index) => String(index + 1).padStart(2, '0')));
+});
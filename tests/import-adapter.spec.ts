@@ -0,0 +1,104 @@
+import { test, expect } from './fixtures/cdp-fixtures';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CsvDataHandler, StudentRecord } from '../src/utils/csv-data-handler';
+import { parseCsv } from '../src/utils/csv-parser';
+import { IMPORT_MAPPINGS_DIR, ImportAdapter, readImportMappingFile } from '../src/utils/import-adapter';
+
+/** Import mappings: resolving the bundled example-sis mapping against exports, and mapping file errors */
+const ENGLISH_HEADER = 'Student ID,Citizen ID,Room,Sex,Birth Date,Full Name,Address,Level,Year';
+const THAI_HEADER = 'เลขประจำตัว,เลขบัตรประชาชน,ห้องเรียน,เพศ,วันเดือนปีเกิด,ชื่อ-สกุล,ที่อยู่,ระดับชั้น,ชั้นปี';
+
+/** Runs an export through the mapping and pairs each data row's cells with the mapped header. */
+function transform(content: string): Partial<Record<keyof StudentRecord, string>>[] {
+  const [header, ...rows] = ImportAdapter.getInstance('example-sis').transformRows(parseCsv(content));
+  return rows.map(row => Object.fromEntries(header.fields.map((field, index) => [field, row.fields[index]])));
+}
+
+const TRANSFORM_CASES: { name: string; content: string; expected: Partial<Record<keyof StudentRecord, string>> }[] = [
+  {
+    name: 'English headers, abbreviated prefix and English level',
+    content: `${ENGLISH_HEADER}\n39086,1368400145149,2,M,20/03/2555,ด.ช. สมชาย ใจดี,"12 หมู่ 3 ต.กวางโจน อ.ภูเขียว จ.ชัยภูมิ",M,1`,
+    expected: {
+      studentId: '39086', studentCid: '1368400145149', room: '2', gender: 'ช', birthDate: '20/03/2555',
+      titlePrefix: 'เด็กชาย', firstName: 'สมชาย', lastName: 'ใจดี',
+      houseNumber: '12', village: '3', subdistrict: 'กวางโจน', district: 'ภูเขียว', province: 'ชัยภูมิ',
+      grade: 'ม.1', nationality: 'ไทย'
+    }
+  },
+  {
+    name: 'Thai headers and Thai values',
+    content: `${THAI_HEADER}\n39087,1101700123456,1,หญิง,1/5/2552,นางสาว สมหญิง รักเรียน,"5 ตำบลกวางโจน อำเภอภูเขียว จังหวัดชัยภูมิ",ม,4`,
+    expected: {
+      gender: 'ญ', titlePrefix: 'นางสาว', firstName: 'สมหญิง', lastName: 'รักเรียน',
+      houseNumber: '5', village: '', subdistrict: 'กวางโจน', grade: 'ม.4', nationality: 'ไทย'
+    }
+  },
+  {
+    name: 'name without a prefix and no address',
+    content: `${ENGLISH_HEADER}\n39088,,3,F,,สมศรี มีสุข ดีใจ,,,`,
+    expected: { gender: 'ญ', titlePrefix: '', firstName: 'สมศรี', lastName: 'มีสุข ดีใจ', subdistrict: '', grade: '', nationality: 'ไทย' }
+  }
+];
+
+for (const { name, content, expected } of TRANSFORM_CASES) {
+  test(`example-sis: ${name}`, () => {
+    const [record] = transform(content);
+    expect(record).toMatchObject(expected);
+  });
+}
+
+test('transformRows keeps the source line numbers and raw text, and leaves blank rows blank', () => {
+  const rows = ImportAdapter.getInstance('example-sis').transformRows(parseCsv(`${ENGLISH_HEADER}\n39086,,2,M,,สมชาย ใจดี,,M,1\n,,,,,,,,\n39087,,2,F,,สมหญิง ใจดี,,M,1`));
+  expect(rows.map(row => row.lineNumber)).toEqual([1, 2, 3, 4]);
+  expect(rows[1].raw).toBe('39086,,2,M,,สมชาย ใจดี,,M,1');
+  expect(rows[2].fields.every(cell => cell === '')).toBe(true);
+});
+
+test('a header the mapping needs is missing', () => {
+  expect(() => transform('Student ID,Citizen ID,Sex,Birth Date,Full Name,Address,Level,Year\n1,2,3,4,5,6,7,8'))
+    .toThrow('Columns named by the import mapping are not in the file: "Room" or "ห้องเรียน"');
+});
+
+test('a mapping is found by bundled name or by path', () => {
+  expect(ImportAdapter.getMappingNames()).toContain('example-sis');
+  expect(ImportAdapter.getInstance(path.join(IMPORT_MAPPINGS_DIR, 'example-sis.json'))).toBe(ImportAdapter.getInstance('example-sis'));
+});
+
+let directory: string;
+
+test.beforeAll(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'import-mapping-'));
+});
+
+test.afterAll(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+const ERROR_CASES: { name: string; mapping: object; error: string }[] = [
+  { name: 'unknown section', mapping: { description: '', columns: { room: 'Room' }, column: {} }, error: 'unknown section "column"' },
+  { name: 'no description', mapping: { columns: { room: 'Room' } }, error: 'description must be a string' },
+  { name: 'unknown field', mapping: { description: '', columns: { classroom: 'Room' } }, error: 'columns.classroom names unknown field "classroom"' },
+  {
+    name: 'field filled twice',
+    mapping: { description: '', columns: { firstName: 'Name' }, split: [{ from: 'Full Name', into: ['firstName', 'lastName'] }] },
+    error: 'split[0].into: firstName is already filled by columns.firstName'
+  },
+  { name: 'split into one field', mapping: { description: '', split: [{ from: 'Name', into: ['firstName'] }] }, error: 'split[0].into must list at least two fields' },
+  {
+    name: 'pattern with too few groups',
+    mapping: { description: '', split: [{ from: 'Name', into: ['firstName', 'lastName'], pattern: '^(\\S+)' }] },
+    error: 'split[0].pattern has 1 capture groups for 2 fields'
+  },
+  { name: 'concat of one header', mapping: { description: '', concat: [{ from: ['Level'], into: 'grade' }] }, error: 'concat[0].from must list at least two headers' },
+  { name: 'values for an unknown field', mapping: { description: '', columns: { room: 'Room' }, values: { sex: { M: 'ช' } } }, error: 'values names unknown field "sex"' },
+  { name: 'nothing to fill', mapping: { description: '' }, error: 'the mapping fills no fields' }
+];
+
+for (const { name, mapping, error } of ERROR_CASES) {
+  test(`readImportMappingFile rejects a mapping with ${name}`, () => {
+    const filePath = path.join(directory, `${name.replace(/\s+/g, '-')}.json`);
+    fs.writeFileSync(filePath, JSON.stringify(mapping));
+    const fieldNames = Object.keys(CsvDataHandler.getInstance().getDataDictionary());
+    expect(() => readImportMappingFile(filePath, fieldNames)).toThrow(error);
+  });
+}
@@ -0,0 +1,108 @@
+import { test, expect } from './fixtures/cdp-fixtures';
+import { StudentRecord } from '../src/utils/csv-data-handler';
+import { changedStudents, diffStudents, StudentChangeKind } from '../src/utils/student-diff';
+
+/** diffStudents keying by national ID or school and student ID, field changes, and changedStudents */
+function student(overrides: Partial<StudentRecord>): StudentRecord {
+  return { schoolCode: '36022006', studentCid: '', studentId: '', firstName: 'สมชาย', lastName: 'ใจดี', room: '1', weight: 40, ...overrides } as StudentRecord;
+}
+
+const FIELDS: (keyof StudentRecord)[] = ['room', 'weight'];
+
+const CASES: {
+  name: string;
+  previous: Partial<StudentRecord>[];
+  current: Partial<StudentRecord>[];
+  /** Kind, how the pair was matched, and the changed fields with their before/after values. */
+  changes: [StudentChangeKind, 'studentCid' | 'studentId' | null, string[]][];
+  unchanged: number;
+}[] = [
+  { name: 'same record', previous: [{ studentCid: '1368400145149' }], current: [{ studentCid: '1368400145149' }], changes: [], unchanged: 1 },
+  {
+    name: 'room change',
+    previous: [{ studentCid: '1368400145149', room: '1' }],
+    current: [{ studentCid: '1368400145149', room: '2' }],
+    changes: [['modified', 'studentCid', ['room: 1 → 2']]],
+    unchanged: 0
+  },
+  {
+    name: 'decimal weight',
+    previous: [{ studentCid: '1368400145149', weight: 40 }],
+    current: [{ studentCid: '1368400145149', weight: 40.5 }],
+    changes: [['modified', 'studentCid', ['weight: 40 → 40.5']]],
+    unchanged: 0
+  },
+  {
+    name: 'absent weight is not zero',
+    previous: [{ studentCid: '1368400145149', weight: null as unknown as number }],
+    current: [{ studentCid: '1368400145149', weight: 0 }],
+    changes: [['modified', 'studentCid', ['weight:  → 0']]],
+    unchanged: 0
+  },
+  {
+    name: 'student who joined and student who left',
+    previous: [{ studentCid: '1368400145149' }],
+    current: [{ studentCid: '1101700123456' }],
+    changes: [['added', null, []], ['removed', null, []]],
+    unchanged: 0
+  },
+  {
+    name: 'no national ID: paired by school and student ID',
+    previous: [{ studentId: '39086', room: '1' }],
+    current: [{ studentId: '39086', room: '2' }],
+    changes: [['modified', 'studentId', ['room: 1 → 2']]],
+    unchanged: 0
+  },
+  {
+    name: 'national ID added since: paired by student ID',
+    previous: [{ studentId: '39086' }],
+    current: [{ studentId: '39086', studentCid: '1368400145149' }],
+    changes: [],
+    unchanged: 1
+  },
+  {
+    name: 'same student ID in another school',
+    previous: [{ studentId: '39086' }],
+    current: [{ studentId: '39086', schoolCode: '36022007' }],
+    changes: [['added', null, []], ['removed', null, []]],
+    unchanged: 0
+  },
+  {
+    name: 'same student ID, different national IDs',
+    previous: [{ studentId: '39086', studentCid: '1368400145149' }],
+    current: [{ studentId: '39086', studentCid: '1101700123456' }],
+    changes: [['added', null, []], ['removed', null, []]],
+    unchanged: 0
+  },
+  {
+    name: 'repeated national ID paired in file order',
+    previous: [{ studentCid: '1368400145149', room: '1' }, { studentCid: '1368400145149', room: '2' }],
+    current: [{ studentCid: '1368400145149', room: '1' }, { studentCid: '1368400145149', room: '3' }],
+    changes: [['modified', 'studentCid', ['room: 2 → 3']]],
+    unchanged: 1
+  }
+];
+
+for (const { name, previous, current, changes, unchanged } of CASES) {
+  test(`diffStudents: ${name}`, () => {
+    const diff = diffStudents(previous.map(student), current.map(student), { fields: FIELDS });
+    expect(diff.changes.map(change => [
+      change.kind,
+      change.matchedBy,
+      change.changes.map(fieldChange => `${fieldChange.field}: ${fieldChange.before} → ${fieldChange.after}`)
+    ])).toEqual(changes);
+    expect(diff.counts.unchanged).toBe(unchanged);
+    expect(diff.fields).toEqual(FIELDS);
+  });
+}
+
+test('changedStudents keeps added records and records changed in the given fields', () => {
+  const diff = diffStudents(
+    [student({ studentCid: '1368400145149', room: '1' }), student({ studentCid: '1101700123456', weight: 40 }), student({ studentCid: '3100500000003' })],
+    [student({ studentCid: '1368400145149', room: '2' }), student({ studentCid: '1101700123456', weight: 41 }), student({ studentCid: '5000000000010' })],
+    { fields: FIELDS }
+  );
+  expect(diff.counts).toEqual({ added: 1, removed: 1, modified: 2, unchanged: 0 });
+  expect(changedStudents(diff).map(record => record.studentCid)).toEqual(['1368400145149', '1101700123456', '5000000000010']);
+  expect(changedStudents(diff, ['weight']).map(record => record.studentCid)).toEqual(['1101700123456', '5000000000010']);
+});
@@ -0,0 +1,73 @@
+import { test, expect } from './fixtures/cdp-fixtures';
+import { DataDictionary, StudentRecord, ValidationProfile } from '../src/utils/csv-data-handler';
+import { StudentValidator, ValidationRule } from '../src/utils/student-validator';
+import { parseThaiDate, ThaiDate } from '../src/utils/thai-date';
+
+/** StudentValidator: each dictionary rule, the age checks on 10 June, and profiles narrowing the checked fields */
+const DICTIONARY: DataDictionary = {
+  studentCid: { thaiName: 'เลขประจำตัวประชาชน', englishName: 'Student CID', type: 'string', required: true, description: '', columnIndex: 0, format: 'thaiNationalId' },
+  studentId: {
+    thaiName: 'เลขประจำตัวนักเรียน', englishName: 'Student ID', type: 'string', required: false,
+    description: '', columnIndex: 4,
+    validation: { pattern: '^[0-9]+$', message: 'Student ID must be digits', messageTh: 'เลขประจำตัวนักเรียนต้องเป็นตัวเลข' }
+  },
+  firstName: { thaiName: 'ชื่อ', englishName: 'First Name', type: 'string', required: true, description: '', columnIndex: 1 },
+  gender: { thaiName: 'เพศ', englishName: 'Gender', type: 'string', required: false, description: '', columnIndex: 2, allowedValues: ['ช', 'ญ'] },
+  weight: { thaiName: 'น้ำหนัก', englishName: 'Weight', type: 'number', required: false, description: '', columnIndex: 3 },
+  birthDate: { thaiName: 'วันเกิด', englishName: 'Birth Date', type: 'date', required: false, description: '', columnIndex: 5 },
+  age: { thaiName: 'อายุ', englishName: 'Age', type: 'number', required: false, description: '', columnIndex: 6 },
+  grade: { thaiName: 'ชั้น', englishName: 'Grade', type: 'string', required: false, description: '', columnIndex: 7 }
+};
+
+const HEALTH_PROFILE: ValidationProfile = { description: 'Health update', fields: ['studentCid', 'weight'], requiredFields: ['studentCid', 'weight'] };
+
+const AGE_PROFILE: ValidationProfile = { description: 'Age check', fields: ['birthDate', 'age', 'grade'], requiredFields: [] };
+
+const VALID: Partial<StudentRecord> = { studentCid: '1368400145149', firstName: 'สมชาย', gender: 'ช', weight: 40 };
+
+const CASES: {
+  name: string;
+  student: Partial<StudentRecord>;
+  profile?: ValidationProfile;
+  errors: [keyof StudentRecord, ValidationRule][];
+}[] = [
+  { name: 'a complete record', student: VALID, errors: [] },
+  { name: 'missing required field', student: { ...VALID, firstName: '' }, errors: [['firstName', 'required']] },
+  { name: '"-" counts as missing', student: { ...VALID, firstName: '-' }, errors: [['firstName', 'required']] },
+  { name: 'missing optional field', student: { ...VALID, gender: '' }, errors: [] },
+  { name: 'number field with text', student: { ...VALID, weight: 'หนัก' as unknown as number }, errors: [['weight', 'type']] },
+  { name: 'date field with text', student: { ...VALID, birthDate: '31/02/2568' as unknown as ThaiDate }, errors: [['birthDate', 'type']] },
+  { name: 'national ID too short', student: { ...VALID, studentCid: '13684' }, errors: [['studentCid', 'format']] },
+  { name: 'national ID with a wrong check digit', student: { ...VALID, studentCid: '1368400145148' }, errors: [['studentCid', 'checksum']] },
+  { name: 'national ID rounded by Excel', student: { ...VALID, studentCid: '1.36840E+12' }, errors: [['studentCid', 'format']] },
+  { name: 'pattern mismatch', student: { ...VALID, studentId: '39O86' }, errors: [['studentId', 'pattern']] },
+  { name: 'value not allowed', student: { ...VALID, gender: 'X' }, errors: [['gender', 'allowedValues']] },
+  { name: 'several errors', student: { studentCid: 'x', firstName: '', gender: 'X' }, errors: [['studentCid', 'format'], ['firstName', 'required'], ['gender', 'allowedValues']] },
+  { name: 'profile ignores fields it does not use', student: { ...VALID, firstName: '', gender: 'X' }, profile: HEALTH_PROFILE, errors: [] },
+  { name: 'profile requires fields the dictionary does not', student: { ...VALID, weight: undefined }, profile: HEALTH_PROFILE, errors: [['weight', 'required']] },
+  // Ages are taken on the counting date, 10 June 2568
+  { name: 'age and grade that match the birth date', student: { birthDate: parseThaiDate('10/06/2555'), age: 13, grade: 'ม.1' }, profile: AGE_PROFILE, errors: [] },
+  { name: 'born on 10 June: already 13, so 11 is two years off', student: { birthDate: parseThaiDate('10/06/2555'), age: 11 }, profile: AGE_PROFILE, errors: [['age', 'consistency']] },
+  { name: 'born on 11 June: still 12, so 11 is within a year', student: { birthDate: parseThaiDate('11/06/2555'), age: 11 }, profile: AGE_PROFILE, errors: [] },
+  { name: 'birth date after the counting date', student: { birthDate: parseThaiDate('11/06/2568') }, profile: AGE_PROFILE, errors: [['birthDate', 'consistency']] },
+  { name: 'grade far from the age', student: { birthDate: parseThaiDate('10/06/2555'), grade: 'ป.1' }, profile: AGE_PROFILE, errors: [['grade', 'consistency']] }
+];
+
+for (const { name, student, profile, errors } of CASES) {
+  test(`validate: ${name}`, () => {
+    const result = new StudentValidator(DICTIONARY).validate(student as StudentRecord, { profile, row: 7, educationYear: 2568 });
+    expect(result.errors.map(error => [error.field, error.rule])).toEqual(errors);
+    expect(result.isValid).toBe(errors.length === 0);
+    for (const error of result.errors) {
+      expect(error.row).toBe(7);
+      expect(error.messageTh).toBeTruthy();
+    }
+  });
+}
+
+test('validate: pattern errors use the dictionary messages', () => {
+  const [error] = new StudentValidator(DICTIONARY).validate({ ...VALID, studentId: '39O86' } as StudentRecord).errors;
+  expect(error.message).toBe('Student ID must be digits');
+  expect(error.messageTh).toBe('เลขประจำตัวนักเรียนต้องเป็นตัวเลข');
+  expect(error.value).toBe('39O86');
+});
@@ -0,0 +1,128 @@
+import { test, expect } from './fixtures/cdp-fixtures';
+import {
+  AddressCheckResult,
+  checkThaiAddress,
+  findAddressesByPostcode,
+  findPostcodes,
+  stripAddressPrefix,
+  ThaiAddress
+} from '../src/utils/thai-address';
+
+/** checkThaiAddress against the bundled dataset: prefixes, short province names, autocorrect, suggestions and postcode lookups */
+const KWANG_CHON: ThaiAddress = { subdistrict: 'กวางโจน', district: 'ภูเขียว', province: 'ชัยภูมิ' };
+const KHLONG_TAN: ThaiAddress = { subdistrict: 'คลองตัน', district: 'คลองเตย', province: 'กรุงเทพมหานคร' };
+
+const CHECK_CASES: {
+  name: string;
+  input: ThaiAddress;
+  status: AddressCheckResult['status'];
+  /** Address of valid and corrected results. */
+  expected?: ThaiAddress;
+  /** Fields reported as corrections. */
+  corrected?: (keyof ThaiAddress)[];
+  /** Part of the English message. */
+  message?: string;
+}[] = [
+  { name: 'exact names', input: KWANG_CHON, status: 'valid', expected: KWANG_CHON, corrected: [] },
+  {
+    name: 'short prefixes',
+    input: { subdistrict: 'ต.กวางโจน', district: 'อ.ภูเขียว', province: 'จ.ชัยภูมิ' },
+    status: 'valid', expected: KWANG_CHON, corrected: ['subdistrict', 'district', 'province']
+  },
+  {
+    name: 'full prefixes with spaces',
+    input: { subdistrict: 'ตำบล กวางโจน', district: 'อำเภอ ภูเขียว', province: 'จังหวัด ชัยภูมิ' },
+    status: 'valid', expected: KWANG_CHON, corrected: ['subdistrict', 'district', 'province']
+  },
+  {
+    name: '"เมือง" for the capital district',
+    input: { subdistrict: 'ในเมือง', district: 'เมือง', province: 'ชัยภูมิ' },
+    status: 'valid', expected: { subdistrict: 'ในเมือง', district: 'เมืองชัยภูมิ', province: 'ชัยภูมิ' }, corrected: ['district']
+  },
+  {
+    name: 'Bangkok prefixes',
+    input: { subdistrict: 'แขวงคลองตัน', district: 'เขตคลองเตย', province: 'กรุงเทพมหานคร' },
+    status: 'valid', expected: KHLONG_TAN, corrected: ['subdistrict', 'district']
+  },
+  ...['กทม.', 'กทม', 'กรุงเทพฯ', 'กรุงเทพ', 'จ.กทม.'].map(province => ({
+    name: `Bangkok as "${province}"`,
+    input: { ...KHLONG_TAN, province },
+    status: 'valid' as const, expected: KHLONG_TAN, corrected: ['province' as const]
+  })),
+  {
+    name: 'one misspelt letter',
+    input: { ...KWANG_CHON, province: 'ชัยภุมิ' },
+    status: 'corrected', expected: KWANG_CHON, corrected: ['province'], message: 'corrected to ต.กวางโจน อ.ภูเขียว จ.ชัยภูมิ'
+  },
+  {
+    name: 'misspelt short name is not corrected',
+    input: { ...KWANG_CHON, subdistrict: 'โอลา' },
+    status: 'invalid'
+  },
+  {
+    name: 'real names that do not go together',
+    input: { ...KWANG_CHON, district: 'คอนสาร' },
+    status: 'invalid', message: 'is not a real combination'
+  },
+  {
+    name: 'unknown subdistrict',
+    input: { ...KWANG_CHON, subdistrict: 'ไม่มีจริง' },
+    status: 'invalid', message: 'Unknown subdistrict "ไม่มีจริง"'
+  },
+  {
+    name: 'missing district',
+    input: { ...KWANG_CHON, district: ' ' },
+    status: 'incomplete', message: 'missing its district'
+  },
+  { name: 'no parts', input: { subdistrict: '', district: '', province: '' }, status: 'empty' }
+];
+
+for (const { name, input, status, expected, corrected, message } of CHECK_CASES) {
+  test(`checkThaiAddress: ${name}`, () => {
+    const result = checkThaiAddress(input);
+    expect(result.status).toBe(status);
+    expect(result.address).toEqual(expected || input);
+    if (corrected) {
+      expect(result.corrections.map(correction => correction.field)).toEqual(corrected);
+    }
+    if (message) {
+      expect(result.message).toContain(message);
+    }
+    expect(result.messageTh).toBeTruthy();
+  });
+}
+
+test('checkThaiAddress: valid addresses carry their postcodes', () => {
+  expect(checkThaiAddress(KWANG_CHON).postcodes).toEqual(['36110']);
+  expect(checkThaiAddress(KHLONG_TAN).postcodes).toEqual(['10110']);
+});
+
+test('checkThaiAddress: without autocorrect a misspelling is invalid with the real address suggested first', () => {
+  const result = checkThaiAddress({ ...KWANG_CHON, province: 'ชัยภุมิ' }, { autocorrect: false, maxSuggestions: 2 });
+  expect(result.status).toBe('invalid');
+  expect(result.suggestions).toHaveLength(2);
+  expect(result.suggestions[0]).toEqual(KWANG_CHON);
+});
+
+const PREFIX_CASES: { field: keyof ThaiAddress; input: string; expected: string }[] = [
+  { field: 'subdistrict', input: 'ต.กวางโจน', expected: 'กวางโจน' },
+  { field: 'subdistrict', input: 'แขวง คลองตัน', expected: 'คลองตัน' },
+  { field: 'district', input: 'กิ่งอำเภอซับใหญ่', expected: 'ซับใหญ่' },
+  { field: 'district', input: 'อ. ภูเขียว', expected: 'ภูเขียว' },
+  { field: 'province', input: 'จังหวัดชัยภูมิ', expected: 'ชัยภูมิ' },
+  // A prefix alone is the whole name, not a prefix
+  { field: 'district', input: 'เขต', expected: 'เขต' }
+];
+
+for (const { field, input, expected } of PREFIX_CASES) {
+  test(`stripAddressPrefix(${field}, ${JSON.stringify(input)})`, () => {
+    expect(stripAddressPrefix(field, input)).toBe(expected);
+  });
+}
+
+test('postcode lookups in both directions', () => {
+  expect(findPostcodes({ subdistrict: 'ต.กวางโจน', district: 'อ.ภูเขียว', province: 'จ.ชัยภูมิ' })).toEqual(['36110']);
+  expect(findPostcodes({ ...KWANG_CHON, province: 'ชัยภุมิ' })).toEqual([]);
+  expect(findAddressesByPostcode(' 36110 ')).toContainEqual(KWANG_CHON);
+  expect(findAddressesByPostcode('00000')).toEqual([]);
+});
@@ -0,0 +1,79 @@
+import { test, expect } from './fixtures/cdp-fixtures';
+import {
+  ageOn,
+  ageOnCountingDate,
+  currentEducationYear,
+  formatThaiDate,
+  parseThaiDate,
+  ThaiDate
+} from '../src/utils/thai-date';
+
+/** Date parsing in B.E. and C.E. with Thai month names, formatting, and ages on the DMC counting date */
+const PARSE_CASES: { input: string; expected: ThaiDate | null }[] = [
+  { input: '20/03/2555', expected: { day: 20, month: 3, year: 2012 } },
+  { input: '20/03/2012', expected: { day: 20, month: 3, year: 2012 } },
+  { input: '20-3-55', expected: { day: 20, month: 3, year: 2012 } },
+  { input: '20.3.2555', expected: { day: 20, month: 3, year: 2012 } },
+  { input: '2012-03-20', expected: { day: 20, month: 3, year: 2012 } },
+  { input: '2555-03-20', expected: { day: 20, month: 3, year: 2012 } },
+  { input: '20 มีนาคม 2555', expected: { day: 20, month: 3, year: 2012 } },
+  { input: '20 มี.ค. 55', expected: { day: 20, month: 3, year: 2012 } },
+  { input: '1 ก.พ. 2556', expected: { day: 1, month: 2, year: 2013 } },
+  { input: '5 พฤษภาคม 2556', expected: { day: 5, month: 5, year: 2013 } },
+  { input: '๒๐ มี.ค. ๒๕๕๕', expected: { day: 20, month: 3, year: 2012 } },
+  { input: '20 มี.ค. พ.ศ. 2555', expected: { day: 20, month: 3, year: 2012 } },
+  // The era marker overrides the two-digit B.E. default
+  { input: '20/03/12 ค.ศ.', expected: { day: 20, month: 3, year: 2012 } },
+  { input: '29/02/2555', expected: { day: 29, month: 2, year: 2012 } },
+  { input: '29/02/2556', expected: null },
+  { input: '31/04/2555', expected: null },
+  { input: '13/13/2555', expected: null },
+  { input: '20 มีนา 2555', expected: null },
+  { input: 'ไม่ทราบ', expected: null },
+  { input: '', expected: null }
+];
+
+for (const { input, expected } of PARSE_CASES) {
+  test(`parseThaiDate(${JSON.stringify(input)})`, () => {
+    expect(parseThaiDate(input)).toEqual(expected);
+  });
+}
+
+test('formatThaiDate writes B.E. by default and C.E. on request', () => {
+  const date = { day: 5, month: 6, year: 2012 };
+  expect(formatThaiDate(date)).toBe('05/06/2555');
+  expect(formatThaiDate(date, 'CE')).toBe('05/06/2012');
+  expect(parseThaiDate(formatThaiDate(date))).toEqual(date);
+});
+
+const AGE_CASES: { birth: ThaiDate; on: ThaiDate; expected: number }[] = [
+  { birth: { day: 10, month: 6, year: 2012 }, on: { day: 10, month: 6, year: 2019 }, expected: 7 },
+  { birth: { day: 10, month: 6, year: 2012 }, on: { day: 9, month: 6, year: 2019 }, expected: 6 },
+  { birth: { day: 31, month: 12, year: 2012 }, on: { day: 1, month: 1, year: 2019 }, expected: 6 },
+  { birth: { day: 29, month: 2, year: 2012 }, on: { day: 28, month: 2, year: 2019 }, expected: 6 },
+  { birth: { day: 29, month: 2, year: 2012 }, on: { day: 1, month: 3, year: 2019 }, expected: 7 }
+];
+
+for (const { birth, on, expected } of AGE_CASES) {
+  test(`ageOn ${formatThaiDate(on)} of a child born ${formatThaiDate(birth)} is ${expected}`, () => {
+    expect(ageOn(birth, on)).toBe(expected);
+  });
+}
+
+test('ageOnCountingDate counts up to 10 June of the education year', () => {
+  expect(ageOnCountingDate({ day: 10, month: 6, year: 2012 }, 2568)).toBe(13);
+  expect(ageOnCountingDate({ day: 11, month: 6, year: 2012 }, '2568')).toBe(12);
+});
+
+const EDUCATION_YEAR_CASES: { today: Date; expected: number }[] = [
+  { today: new Date(2025, 0, 1), expected: 2567 },
+  { today: new Date(2025, 4, 15), expected: 2567 },
+  { today: new Date(2025, 4, 16), expected: 2568 },
+  { today: new Date(2025, 11, 31), expected: 2568 }
+];
+
+for (const { today, expected } of EDUCATION_YEAR_CASES) {
+  test(`currentEducationYear on ${today.toDateString()} is ${expected}`, () => {
+    expect(currentEducationYear(today)).toBe(expected);
+  });
+}
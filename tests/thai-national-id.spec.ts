@@ -0,0 +1,66 @@
+import { test, expect } from './fixtures/cdp-fixtures';
+import {
+  checkThaiNationalId,
+  computeThaiNationalIdCheckDigit,
+  normalizeThaiNationalId,
+  ThaiNationalIdErrorCode
+} from '../src/utils/thai-national-id';
+
+/** National ID normalization, including Excel scientific notation, and the mod-11 check digit */
+const CHECK_DIGIT_CASES: { first12: string; expected: number }[] = [
+  { first12: '136840014514', expected: 9 },
+  { first12: '110170012345', expected: 6 },
+  // Sum leaves remainder 0: 11 wraps to 1
+  { first12: '123456789012', expected: 1 },
+  // Sum leaves remainder 1: 10 wraps to 0
+  { first12: '500000000001', expected: 0 }
+];
+
+for (const { first12, expected } of CHECK_DIGIT_CASES) {
+  test(`check digit of ${first12} is ${expected}`, () => {
+    expect(computeThaiNationalIdCheckDigit(first12)).toBe(expected);
+  });
+}
+
+const CHECK_CASES: { input: string; normalized: string; code?: ThaiNationalIdErrorCode }[] = [
+  { input: '1368400145149', normalized: '1368400145149' },
+  { input: ' 1-3684-00145-14-9 ', normalized: '1368400145149' },
+  { input: '1 3684 00145 14 9', normalized: '1368400145149' },
+  { input: '๑๓๖๘๔๐๐๑๔๕๑๔๙', normalized: '1368400145149' },
+  { input: '1.368400145149E+12', normalized: '1368400145149' },
+  { input: '1.368400145149e12', normalized: '1368400145149' },
+  { input: '5000000000010', normalized: '5000000000010' },
+  { input: '', normalized: '', code: 'empty' },
+  { input: '   ', normalized: '', code: 'empty' },
+  // Excel kept only 7 significant digits, the rest of the ID is lost
+  { input: '1.368400E+12', normalized: '1.368400E+12', code: 'scientificNotation' },
+  { input: '1.36840E+12', normalized: '1.36840E+12', code: 'scientificNotation' },
+  { input: 'G123456789012', normalized: 'G123456789012', code: 'invalidCharacters' },
+  { input: '136840014514', normalized: '136840014514', code: 'length' },
+  { input: '13684001451490', normalized: '13684001451490', code: 'length' },
+  { input: '1368400145148', normalized: '1368400145148', code: 'checksum' },
+  // Two swapped digits
+  { input: '1368400154149', normalized: '1368400154149', code: 'checksum' }
+];
+
+for (const { input, normalized, code } of CHECK_CASES) {
+  test(`checkThaiNationalId(${JSON.stringify(input)}) is ${code || 'valid'}`, () => {
+    const result = checkThaiNationalId(input);
+    expect(result.normalized).toBe(normalized);
+    expect(result.isValid).toBe(code === undefined);
+    expect(result.code).toBe(code);
+    if (code) {
+      expect(result.message).toBeTruthy();
+      expect(result.messageTh).toBeTruthy();
+    }
+  });
+}
+
+test('checksum message names the expected digit', () => {
+  expect(checkThaiNationalId('1368400145148').message).toContain('should be 9');
+});
+
+test('normalizeThaiNationalId leaves values it cannot normalize trimmed but unchanged', () => {
+  expect(normalizeThaiNationalId(' 1.3684E+12 ')).toBe('1.3684E+12');
+  expect(normalizeThaiNationalId(' ไม่มี ')).toBe('ไม่มี');
+});
@@ -0,0 +1,41 @@
+import { test, expect } from './fixtures/cdp-fixtures';
+import { coerceValue, FieldType, FieldValue, formatValue } from '../src/utils/value-coercion';
+
+/** coerceValue and formatValue: absent cells, decimals, Thai digits and B.E. dates */
+const COERCE_CASES: { raw: string; type: FieldType; value: FieldValue; error?: string }[] = [
+  { raw: ' สมชาย ', type: 'string', value: 'สมชาย' },
+  { raw: '', type: 'string', value: '' },
+  { raw: '-', type: 'string', value: '' },
+  { raw: '45.5', type: 'number', value: 45.5 },
+  { raw: ' 0 ', type: 'number', value: 0 },
+  { raw: '๔๕.๕', type: 'number', value: 45.5 },
+  { raw: '', type: 'number', value: null },
+  { raw: ' - ', type: 'number', value: null },
+  { raw: ' abc ', type: 'number', value: 'abc', error: '"abc" is not a number' },
+  { raw: '20/03/2555', type: 'date', value: { day: 20, month: 3, year: 2012 } },
+  { raw: '-', type: 'date', value: null },
+  { raw: '31/02/2568', type: 'date', value: '31/02/2568', error: '"31/02/2568" is not a valid date' }
+];
+
+for (const { raw, type, value, error } of COERCE_CASES) {
+  test(`coerceValue(${JSON.stringify(raw)}, ${type})`, () => {
+    const result = coerceValue(raw, type);
+    expect(result.value).toEqual(value);
+    expect(result.error).toBe(error);
+  });
+}
+
+const FORMAT_CASES: { value: FieldValue | undefined; expected: string }[] = [
+  { value: 45.5, expected: '45.5' },
+  { value: 0, expected: '0' },
+  { value: 'ป.1', expected: 'ป.1' },
+  { value: { day: 5, month: 6, year: 2012 }, expected: '05/06/2555' },
+  { value: null, expected: '' },
+  { value: undefined, expected: '' }
+];
+
+for (const { value, expected } of FORMAT_CASES) {
+  test(`formatValue(${JSON.stringify(value)})`, () => {
+    expect(formatValue(value)).toBe(expected);
+  });
+}